@@ -6,13 +6,55 @@ import "cross-fetch/polyfill";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { initializeApp } from "firebase/app";
 import {
-  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteField,
   doc,
+  getDoc,
+  getDocs,
+  deleteDoc,
   onSnapshot,
+  limit,
+  orderBy,
+  query,
   setDoc,
   serverTimestamp,
+  Timestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
 } from "firebase/firestore";
-import { getAuth, onAuthStateChanged, signInAnonymously } from "firebase/auth";
+import {
+  getAuth,
+  getIdTokenResult,
+  onAuthStateChanged,
+  signInAnonymously,
+  signInWithEmailAndPassword,
+  signOut,
+  type User,
+} from "firebase/auth";
+import {
+  BADGE_CONDITION_LABELS,
+  BADGE_STYLES,
+  bountyIds,
+  computeAchievementsFull,
+  describeCondition,
+  isLegacyBounty,
+  latestSessionDate,
+  leagueBadges,
+  parseBadge,
+  type BadgeCondition,
+  type BadgeDef,
+  type EarnedBadge,
+} from "./badges";
+import { ConflictError, addPlayerTx, saveItemSetsTx, saveItemsTx } from "./leagueTx";
+import { drainQueue } from "./offlineQueue";
+import { byId, canonical, isPlainObject, stripUndefinedDeep } from "./utils";
 
 /**
  * =============================================================
@@ -26,25 +68,126 @@ import { getAuth, onAuthStateChanged, signInAnonymously } from "firebase/auth";
  */
 
 // ========================= Types =========================
+// archived: nem jelenik meg jelenlétnél / választókban, de a története megmarad
+// merged: beolvadt egy másik játékosba (mergedInto), a meccsei átkerültek oda
+export type PlayerStatus = "active" | "archived" | "merged";
+// profil: a "name" az összefűzött címke (emoji + név) – régi kliensek és exportok miatt tovább írjuk,
+// de rendezni / keresni mindig a displayName-re kell (realName)
 export type Player = {
   id: string;
   name: string;
+  displayName?: string;
+  emoji?: string;
+  nickname?: string;
+  color?: string;
   gender?: "M" | "F";
+  status?: PlayerStatus;
+  mergedInto?: string;
+  // "fejvadász-célpont": aki legyőzi, bónuszpontot kap
+  bounty?: boolean;
 };
+export type PlayerProfile = Pick<Player, "displayName" | "emoji" | "nickname" | "color">;
 export type Pair = [string, string];
+// egy játszma eredménye (objektum, mert a Firestore nem enged tömbben tömböt)
+export type GameScore = { a: number; b: number };
 export type Match = {
   id: string;
   date: string;
   teamA: Pair;
   teamB: Pair;
   winner?: "A" | "B";
+  scores?: GameScore[];
+  // pálya-tábla: melyik pályán megy, mikor indult / ért véget (ISO)
+  court?: number;
+  startedAt?: string;
+  finishedAt?: string;
+};
+export type SessionInfo = {
+  courts?: number;
+  // jelenlévők (player id-k) az adott napon
+  present?: string[];
+  // létszámkorlát az RSVP-hez (üres = nincs)
+  capacity?: number;
+};
+export type RsvpStatus = "yes" | "no" | "maybe";
+// leagues/{leagueId}/rsvps/{date}__{playerId}
+export type Rsvp = {
+  date: string;
+  playerId: string;
+  status: RsvpStatus;
+  // szerveridő (a szabályok csak request.time-ot fogadnak el), így a sorrend nem hamisítható
+  at: Timestamp;
+};
+// lezárt szezon végeredménye (fagyasztott pillanatkép)
+export type SeasonStanding = {
+  id: string;
+  name: string;
+  totalPoints: number;
+  wins: number;
+  matches: number;
+  winRate: number;
+  rating: number;
+  qualified: boolean;
+  // régebben lezárt szezonoknál hiányzik (ott a sorszám számít)
+  rank?: number;
+};
+export type Season = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  closedAt?: string;
+  finalStandings?: SeasonStanding[];
 };
 export type Backup = {
   id: string;
   createdAt: string;
   note?: string;
-  data: { players: Player[]; matches: Match[] };
+  data: {
+    players: Player[];
+    matches: Match[];
+    sessions?: Record<string, SessionInfo>;
+    seasons?: Season[];
+    title?: string;
+    settings?: LeagueSettings;
+    badges?: BadgeDef[];
+  };
 };
+// tevékenységnapló: leagues/{leagueId}/audit/{entryId} – csak hozzáfűzés
+export type AuditAction =
+  | "add-match"
+  | "set-result"
+  | "clear-result"
+  | "requeue"
+  | "delete-match"
+  | "add-player"
+  | "edit-player"
+  | "remove-player"
+  | "merge-player"
+  | "upgrade-profiles"
+  | "edit-settings"
+  | "edit-badges"
+  | "replace-all"
+  | "repair"
+  | "undo";
+// league: a liga-dokumentum egy mezője (null = nem volt beállítva)
+export type AuditChange =
+  | { kind: "match"; id: string; before: Match | null; after: Match | null }
+  | { kind: "player"; id: string; before: Player | null; after: Player | null }
+  | { kind: "league"; id: "settings"; before: LeagueSettings | null; after: LeagueSettings | null }
+  | { kind: "league"; id: "badges"; before: BadgeDef[] | null; after: BadgeDef[] | null };
+export type AuditEntry = {
+  id: string;
+  at: string;
+  actor: string;
+  action: AuditAction;
+  summary: string;
+  changes: AuditChange[];
+  // teljes csere (import / visszaállítás) előtti pillanatkép
+  backupId?: string;
+  undoOf?: string;
+};
+
 export type LeagueDoc = {
   players: Player[];
   matches: Match[];
@@ -52,7 +195,32 @@ export type LeagueDoc = {
   updatedAt?: any;
   title?: string;
   backups?: Backup[];
+  sessions?: Record<string, SessionInfo>;
+  seasons?: Season[];
+  // ennyi pillanatképet tartunk meg a leagues/{id}/backups alatt
+  backupRetention?: number;
+  // 2 = játékosok/meccsek/edzésnapok külön dokumentumokban (lásd Data Sync)
+  schemaVersion?: number;
+  settings?: LeagueSettings;
+  // jelvény-definíciók; hiányában a DEFAULT_BADGES
+  badges?: BadgeDef[];
+  // félbeszakadt, több kötegből álló csere (import/visszaállítás) jelzője, lásd commitOps
+  interruptedWrite?: { label: string; startedAt: string } | null;
+};
+// pontozási szabályok; hiányzó mezőnél a DEFAULT_SETTINGS érvényes
+export type LeagueSettings = {
+  winPoints: number;
+  lossPoints: number;
+  // nyert játszmánként, csak ha van rögzített eredmény
+  gamePoints: number;
+  // ennyi meccs után kerül be valaki a rangsorba
+  minMatches: number;
+  // bounty játékos legyőzéséért
+  bountyBonus: number;
+  // pontegyenlőségnél ebben a sorrendben döntünk; a végén mindig a név (az már nem választ szét helyezést)
+  tieBreakers: TieBreaker[];
 };
+export type TieBreaker = "headToHead" | "winRate" | "fewerMatches" | "pointDiff";
 
 // ========================= Firebase =========================
 const firebaseConfig = {
@@ -65,7 +233,12 @@ const firebaseConfig = {
 };
 const app = initializeApp(firebaseConfig);
 const auth = getAuth(app);
-const db = getFirestore(app, "default");
+// offline is működjön (IndexedDB cache, több fülön is)
+const db = initializeFirestore(
+  app,
+  { localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }) },
+  "default"
+);
 
 console.log("🔥 Firebase projectId:", import.meta.env.VITE_FIREBASE_PROJECT_ID);
 
@@ -78,51 +251,369 @@ console.log(
 
 
 // ========================= Utils =========================
-const isPlainObject = (v: any) =>
-  v !== null &&
-  typeof v === "object" &&
-  (Object.getPrototypeOf(v) === Object.prototype || Object.getPrototypeOf(v) === null);
+const uid = () => Math.random().toString(36).slice(2, 10);
+const fmt = (d: Date) => d.toISOString().slice(0, 10);
+const weekday = (dstr: string) =>
+  new Date(dstr + "T12:00:00").toLocaleDateString(undefined, {
+    weekday: "long",
+  });
+const key = (a: string, b: string) => [a, b].sort().join("::");
+// az elején álló emoji (akár több kódpontos, pl. ZWJ-s vagy bőrszínes) leválasztása
+const EMOJI_PREFIX_RE = /^((?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200D|\uFE0F)+)\s*/u;
+const splitLegacyName = (full: string): { emoji?: string; displayName: string } => {
+  const m = full.trim().match(EMOJI_PREFIX_RE);
+  return m ? { emoji: m[1], displayName: full.trim().slice(m[0].length).trim() } : { displayName: full.trim() };
+};
+const getBaseName = (full: string) => splitLegacyName(full).displayName;
+const realName = (p: Player) => (p.displayName ?? getBaseName(p.name ?? "")).trim();
+const byRealName = (a: Player, b: Player) => realName(a).localeCompare(realName(b), "hu");
+const foldText = (v: string) => v.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+const playerMatchesQuery = (p: Player, q: string) =>
+  !q.trim() || [realName(p), p.nickname ?? ""].some((v) => foldText(v).includes(foldText(q.trim())));
+const isSinglesMatch = (m: Match) => !m.teamA[1] && !m.teamB[1];
+const formatTeam = (team: Pair, nameOf: (id: string) => string) =>
+  team[1] ? `${nameOf(team[0])} & ${nameOf(team[1])}` : `${nameOf(team[0])}`;
+const isHiddenFromStandings = (p: Player) =>
+  realName(p).toLowerCase() === "orsi" || p.status === "merged";
+const isActivePlayer = (p: Player) => !p.status || p.status === "active";
+const addDays = (dstr: string, n: number) => {
+  const d = new Date(dstr + "T12:00:00");
+  d.setDate(d.getDate() + n);
+  return fmt(d);
+};
+const inSeason = (dstr: string, s: Season) => dstr >= s.startDate && dstr <= s.endDate;
+// az aktuális szezon: ami nyitott és tartalmazza a mai napot, különben a legutóbb kezdődő nyitott
+const currentSeason = (seasons: Season[], today: string): Season | undefined =>
+  seasons.find((s) => !s.closedAt && inSeason(today, s)) ??
+  seasons.filter((s) => !s.closedAt).sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+
+// ========================= Scores =========================
+// Rally pontozás 21-ig: 2 pont előny kell, 29-29 után a 30. pont dönt.
+const GAME_POINTS = 21;
+const GAME_CAP = 30;
+
+function validateGame(g: GameScore): string | null {
+  const { a, b } = g;
+  if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 0) return "Scores must be whole numbers.";
+  const hi = Math.max(a, b);
+  const lo = Math.min(a, b);
+  if (hi === lo) return `${a}-${b}: a game cannot end in a tie.`;
+  if (hi < GAME_POINTS) return `${a}-${b}: the winner needs at least ${GAME_POINTS} points.`;
+  if (hi > GAME_CAP) return `${a}-${b}: a game is capped at ${GAME_CAP} points.`;
+  if (hi === GAME_POINTS) return lo <= GAME_POINTS - 2 ? null : `${a}-${b}: a 2-point lead is needed.`;
+  if (hi === GAME_CAP) return lo >= GAME_CAP - 2 ? null : `${a}-${b}: the game should have ended earlier.`;
+  return hi - lo === 2 ? null : `${a}-${b}: past ${GAME_POINTS - 1}-all the game ends on a 2-point lead.`;
+}
+
+const gameWinner = (g: GameScore): "A" | "B" => (g.a > g.b ? "A" : "B");
+
+/** Best-of-1 vagy best-of-3 ellenőrzés; null = rendben. Megadott bestOf-nál a játszmaszám is kötött. */
+function validateScores(scores: GameScore[], bestOf?: 1 | 3): string | null {
+  if (scores.length < 1 || scores.length > 3) return "Enter 1 game (best of 1) or 2–3 games (best of 3).";
+  if (bestOf === 3 && scores.length < 2) return "Best of 3: enter at least 2 games.";
+  if (bestOf === 1 && scores.length > 1) return "Best of 1: enter a single game.";
+  for (const g of scores) {
+    const err = validateGame(g);
+    if (err) return err;
+  }
+  if (scores.length === 1) return null;
+  let wa = 0, wb = 0;
+  for (let i = 0; i < scores.length; i++) {
+    if (wa === 2 || wb === 2) return "Too many games: the match was already decided.";
+    if (gameWinner(scores[i]) === "A") wa++; else wb++;
+  }
+  return wa === 2 || wb === 2 ? null : "Best of 3: one side must win 2 games.";
+}
+
+/** A győztes a játszmákból; undefined, ha az eredmény nem érvényes. */
+function matchWinnerFromScores(scores: GameScore[] | undefined, bestOf?: 1 | 3): "A" | "B" | undefined {
+  if (!scores?.length || validateScores(scores, bestOf)) return undefined;
+  const wa = scores.filter((g) => gameWinner(g) === "A").length;
+  return wa * 2 > scores.length ? "A" : "B";
+}
+
+const formatScores = (scores: GameScore[] | undefined) =>
+  (scores ?? []).map((g) => `${g.a}-${g.b}`).join(", ");
+// ========================= Rating Engine =========================
+// Glicko-1 jellegű értékelés: minden meccs egy "ütközet" két csapat között.
+// Párosnál a csapat értéke a két játékos átlaga, az RD-k négyzetes átlaga.
+// Új edzésnapon minden ismert játékos bizonytalansága kicsit nő.
+export type Rating = { rating: number; rd: number };
+export type RatingPoint = { date: string; rating: number; rd: number };
+
+const RATING_START = 1500;
+const RD_START = 350;
+const RD_MIN = 30;
+const RD_DECAY = 15; // edzésnaponkénti RD-növekedés
+const GLICKO_Q = Math.log(10) / 400;
+
+const glickoG = (rd: number) => 1 / Math.sqrt(1 + (3 * GLICKO_Q * GLICKO_Q * rd * rd) / (Math.PI * Math.PI));
 
 /**
- * Firestore-safe deep clean:
- * - object mezőből kidobja az undefined-et
- * - array-ben az undefined elemet null-ra cseréli
- * - FieldValue / Timestamp jellegű nem-plain objecteket békén hagy
+ * Végigjátssza a meccseket dátum szerint (azon belül a tárolt sorrendben),
+ * így ugyanabból az adatból – pl. importált mentésből – mindig ugyanaz jön ki.
  */
-function stripUndefinedDeep<T>(value: T): T {
-  if (value === undefined) return undefined as any;
-  if (value === null) return value;
+function computeRatings(matches: Match[]): { ratings: Map<string, Rating>; history: Map<string, RatingPoint[]> } {
+  const ratings = new Map<string, Rating>();
+  const history = new Map<string, RatingPoint[]>();
+  const get = (id: string) => ratings.get(id) ?? { rating: RATING_START, rd: RD_START };
+
+  const ordered = matches
+    .map((m, idx) => ({ m, idx }))
+    .filter(({ m }) => m.winner)
+    .sort((x, y) => x.m.date.localeCompare(y.m.date) || x.idx - y.idx)
+    .map(({ m }) => m);
+
+  let currentDate = "";
+  const touched = new Set<string>();
+  const snapshot = () => {
+    touched.forEach((id) => {
+      const r = get(id);
+      const list = history.get(id) ?? [];
+      list.push({ date: currentDate, rating: r.rating, rd: r.rd });
+      history.set(id, list);
+    });
+    touched.clear();
+  };
+
+  const team = (ids: string[]) => {
+    const rs = ids.map(get);
+    return {
+      rating: rs.reduce((sum, r) => sum + r.rating, 0) / rs.length,
+      rd: Math.sqrt(rs.reduce((sum, r) => sum + r.rd * r.rd, 0) / rs.length),
+    };
+  };
 
-  if (Array.isArray(value)) {
-    return value.map((v) => (v === undefined ? null : stripUndefinedDeep(v))) as any;
+  for (const m of ordered) {
+    if (m.date !== currentDate) {
+      if (currentDate) snapshot();
+      currentDate = m.date;
+      ratings.forEach((r, id) => ratings.set(id, { ...r, rd: Math.min(RD_START, Math.sqrt(r.rd * r.rd + RD_DECAY * RD_DECAY)) }));
+    }
+    const idsA = m.teamA.filter(Boolean);
+    const idsB = m.teamB.filter(Boolean);
+    if (!idsA.length || !idsB.length) continue;
+    const tA = team(idsA);
+    const tB = team(idsB);
+
+    const update = (ids: string[], own: Rating, opp: Rating, score: number) => {
+      const g = glickoG(opp.rd);
+      const expected = 1 / (1 + Math.pow(10, (-g * (own.rating - opp.rating)) / 400));
+      const d2 = 1 / (GLICKO_Q * GLICKO_Q * g * g * expected * (1 - expected));
+      return ids.map((id) => {
+        const r = get(id);
+        const denom = 1 / (r.rd * r.rd) + 1 / d2;
+        return [id, { rating: r.rating + (GLICKO_Q / denom) * g * (score - expected), rd: Math.max(RD_MIN, Math.sqrt(1 / denom)) }] as const;
+      });
+    };
+    // mindkét oldal a meccs előtti értékekből számol
+    const next = [...update(idsA, tA, tB, m.winner === "A" ? 1 : 0), ...update(idsB, tB, tA, m.winner === "B" ? 1 : 0)];
+    next.forEach(([id, r]) => {
+      ratings.set(id, r);
+      touched.add(id);
+    });
   }
+  if (currentDate) snapshot();
+
+  return { ratings, history };
+}
+
+// ========================= Standings Logic =========================
+export type StandingRow = Player & {
+  wins: number;
+  matches: number;
+  totalPoints: number;
+  gamesWon: number;
+  gamesLost: number;
+  pointDiff: number;
+  winRate: number;
+  rating: number;
+  ratingRd: number;
+  qualified: boolean;
+  // hivatalos helyezés (a kvalifikáltak és a még kvalifikálók külön számozva); holtversenyben azonos
+  rank: number;
+};
+const DEFAULT_SETTINGS: LeagueSettings = {
+  winPoints: 3,
+  lossPoints: 1,
+  gamePoints: 0,
+  minMatches: 5,
+  bountyBonus: 1,
+  tieBreakers: ["headToHead", "winRate", "fewerMatches"],
+};
+const TIE_BREAKERS: Record<TieBreaker, string> = {
+  headToHead: "Head-to-head",
+  winRate: "Win rate",
+  fewerMatches: "Fewer matches",
+  pointDiff: "Point difference",
+};
+
+type RankRow = Omit<StandingRow, "rank">;
+// a csoporton belüli egymás elleni mérleg (győzelem − vereség), ahol a másik oldalon is csoporttag állt
+function headToHead(group: RankRow[], matches: Match[]): Map<string, number> {
+  const ids = new Set(group.map((r) => r.id));
+  const out = new Map(group.map((r) => [r.id, 0]));
+  matches.forEach((m) => {
+    if (!m.winner) return;
+    [m.teamA, m.teamB].forEach((team, i) => {
+      const opp = i === 0 ? m.teamB : m.teamA;
+      if (!opp.some((id) => ids.has(id))) return;
+      const won = m.winner === (i === 0 ? "A" : "B");
+      team.filter((id) => ids.has(id) && !opp.includes(id)).forEach((id) => out.set(id, out.get(id)! + (won ? 1 : -1)));
+    });
+  });
+  return out;
+}
+
+// holtversenyes csoportokra bontás: pont, majd a döntési szempontok sorban (mindig a szűkebb csoporton belül)
+function tieGroups(rows: RankRow[], criteria: TieBreaker[], matches: Match[]): RankRow[][] {
+  if (rows.length < 2 || !criteria.length) return [rows];
+  const [c, ...rest] = criteria;
+  const h2h = c === "headToHead" ? headToHead(rows, matches) : undefined;
+  const key = (r: RankRow) =>
+    c === "headToHead" ? h2h!.get(r.id)! : c === "winRate" ? (r.matches ? r.wins / r.matches : 0) : c === "fewerMatches" ? -r.matches : r.pointDiff;
+  const buckets = new Map<number, RankRow[]>();
+  rows.forEach((r) => buckets.set(key(r), [...(buckets.get(key(r)) ?? []), r]));
+  return [...buckets.entries()].sort((a, b) => b[0] - a[0]).flatMap(([, group]) => tieGroups(group, rest, matches));
+}
 
-  if (isPlainObject(value)) {
-    const out: any = {};
-    for (const [k, v] of Object.entries(value as any)) {
-      if (v === undefined) continue;
-      out[k] = stripUndefinedDeep(v);
+function rankRows(rows: RankRow[], tieBreakers: TieBreaker[], matches: Match[]): StandingRow[] {
+  const byPoints = new Map<number, RankRow[]>();
+  rows.forEach((r) => byPoints.set(r.totalPoints, [...(byPoints.get(r.totalPoints) ?? []), r]));
+  const out: StandingRow[] = [];
+  [...byPoints.entries()].sort((a, b) => b[0] - a[0]).forEach(([, tied]) =>
+    tieGroups(tied, tieBreakers, matches).forEach((group) => {
+      const rank = out.length + 1;
+      out.push(...[...group].sort(byRealName).map((r) => ({ ...r, rank })));
+    })
+  );
+  return out;
+}
+const leagueSettings = (league: Pick<LeagueDoc, "settings">): LeagueSettings => ({ ...DEFAULT_SETTINGS, ...league.settings });
+
+type TallyRow = Omit<StandingRow, "winRate" | "rating" | "ratingRd" | "rank">;
+type Tally = Map<string, TallyRow>;
+
+function emptyTally(players: Player[]): Tally {
+  const s: Tally = new Map();
+  players
+    .filter((p) => !isHiddenFromStandings(p))
+    .forEach((p) =>
+      s.set(p.id, { ...p, wins: 0, matches: 0, totalPoints: 0, gamesWon: 0, gamesLost: 0, pointDiff: 0, qualified: false })
+    );
+  return s;
+}
+
+// egy lejátszott meccs hozzáadása a táblához
+function tallyMatch(s: Tally, m: Match, rules: LeagueSettings, bounties: Set<string>) {
+  if (!m.winner) return;
+
+  // matches számlálás mindenkinek, aki benne volt (üres stringeket kihagyjuk)
+  [...m.teamA, ...m.teamB].filter(Boolean).forEach((id) => {
+    const d = s.get(id);
+    if (d) d.matches++;
+  });
+
+  const winners = (m.winner === "A" ? m.teamA : m.teamB).filter(Boolean);
+  const losers = (m.winner === "A" ? m.teamB : m.teamA).filter(Boolean);
+
+  // alappontok
+  winners.forEach((id) => {
+    const d = s.get(id);
+    if (d) {
+      d.wins++;
+      d.totalPoints += rules.winPoints;
     }
-    return out;
+  });
+
+  losers.forEach((id) => {
+    const d = s.get(id);
+    if (d) d.totalPoints += rules.lossPoints;
+  });
+
+  // játszmák és pontkülönbség (csak ha van rögzített eredmény)
+  (m.scores ?? []).forEach((g) => {
+    m.teamA.filter(Boolean).forEach((id) => {
+      const d = s.get(id);
+      if (!d) return;
+      if (g.a > g.b) { d.gamesWon++; d.totalPoints += rules.gamePoints; } else d.gamesLost++;
+      d.pointDiff += g.a - g.b;
+    });
+    m.teamB.filter(Boolean).forEach((id) => {
+      const d = s.get(id);
+      if (!d) return;
+      if (g.b > g.a) { d.gamesWon++; d.totalPoints += rules.gamePoints; } else d.gamesLost++;
+      d.pointDiff += g.b - g.a;
+    });
+  });
+
+  // bounty legyőzése: a győztesek annyiszor kapják a bónuszt, ahány bounty volt a vesztes csapatban
+  const bountyHits = losers.filter((id) => bounties.has(id)).length;
+  if (bountyHits) {
+    winners.forEach((id) => {
+      const d = s.get(id);
+      if (d) d.totalPoints += rules.bountyBonus * bountyHits;
+    });
   }
+}
 
-  // pl. serverTimestamp() FieldValue -> hagyjuk
-  return value;
+// a tábla sorai helyezéssel; a rating nélküli hívás (pl. előzmény) az alapértéket kapja
+function rankTally(s: Tally, rules: LeagueSettings, matches: Match[], ratings?: Map<string, { rating: number; rd: number }>): StandingRow[] {
+  const rows = Array.from(s.values()).map((p) => ({
+    ...p,
+    winRate: p.matches ? Math.round((p.wins / p.matches) * 100) : 0,
+    rating: Math.round(ratings?.get(p.id)?.rating ?? RATING_START),
+    ratingRd: Math.round(ratings?.get(p.id)?.rd ?? RD_START),
+    qualified: p.matches >= rules.minMatches,
+  }));
+  // hivatalos sorrend: előbb a kvalifikáltak, utánuk külön számozva a még kvalifikálók
+  return [
+    ...rankRows(rows.filter((r) => r.qualified), rules.tieBreakers, matches),
+    ...rankRows(rows.filter((r) => !r.qualified), rules.tieBreakers, matches),
+  ];
 }
 
-const uid = () => Math.random().toString(36).slice(2, 10);
-const fmt = (d: Date) => d.toISOString().slice(0, 10);
-const weekday = (dstr: string) =>
-  new Date(dstr + "T12:00:00").toLocaleDateString(undefined, {
-    weekday: "long",
+function computeStandings(players: Player[], matchesForStandings: Match[], settings?: LeagueSettings): StandingRow[] {
+  const rules = leagueSettings({ settings });
+  const bounties = bountyIds({ players, settings });
+  const s = emptyTally(players);
+  matchesForStandings.forEach((m) => tallyMatch(s, m, rules, bounties));
+  const { ratings } = computeRatings(matchesForStandings);
+  return rankTally(s, rules, matchesForStandings, ratings);
+}
+
+// a tabella állapota egy-egy edzésnap végén (csak akinek addig már volt meccse)
+export type StandingPoint = { date: string; rank: number; totalPoints: number; qualified: boolean };
+
+// egyetlen időrendi végigjárás: a tábla halmozódik, minden edzésnap végén csak a rangsorolás fut újra
+function computeStandingsHistory(players: Player[], matchesForStandings: Match[], settings?: LeagueSettings): Map<string, StandingPoint[]> {
+  const rules = leagueSettings({ settings });
+  const bounties = bountyIds({ players, settings });
+  const s = emptyTally(players);
+  const played = matchesForStandings.filter((m) => m.winner).sort((a, b) => a.date.localeCompare(b.date));
+  const soFar: Match[] = [];
+  const out = new Map<string, StandingPoint[]>();
+  played.forEach((m, i) => {
+    tallyMatch(s, m, rules, bounties);
+    soFar.push(m);
+    if (played[i + 1]?.date === m.date) return;
+    rankTally(s, rules, soFar).forEach((r) => {
+      if (!r.matches) return;
+      out.set(r.id, [...(out.get(r.id) ?? []), { date: m.date, rank: r.rank, totalPoints: r.totalPoints, qualified: r.qualified }]);
+    });
   });
-const key = (a: string, b: string) => [a, b].sort().join("::");
-const getBaseName = (full: string) => full.replace(/^.+?\s/, "");
-const isSinglesMatch = (m: Match) => !m.teamA[1] && !m.teamB[1];
-const formatTeam = (team: Pair, nameOf: (id: string) => string) =>
-  team[1] ? `${nameOf(team[0])} & ${nameOf(team[1])}` : `${nameOf(team[0])}`;
-const isHiddenFromStandings = (p: Player) =>
-  getBaseName(p.name).trim().toLowerCase() === "orsi";
+  return out;
+}
+
+// helyezés-változás az előző edzéshez képest (+ = feljebb lépett); csak azonos csoporton belül értelmes.
+// Az első meccs után minden edzésnapra van pont, így az utolsó előtti elem az előző edzés.
+function rankMovement(points: StandingPoint[] | undefined): number | null {
+  const cur = points?.[points.length - 1];
+  const prev = points?.[points.length - 2];
+  if (!cur || !prev || cur.qualified !== prev.qualified) return null;
+  return prev.rank - cur.rank;
+}
+
 // ========================= UI Tokens =========================
 
 
@@ -169,242 +660,1058 @@ const Icons = {
   Bell: () => <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
 };
 
-export type Achievement = {
-  id: string;
-  title: string;
-  description: string;
-};
-
-// ========================= Achievements Logic =========================
-const BADGE_META: Record<string, { icon: string; accent: string; bg: string }> = {
-  win5: { icon: "🥉", accent: "text-amber-700", bg: "bg-amber-50" },
-  win10: { icon: "🥈", accent: "text-slate-700", bg: "bg-slate-100" },
-  win25: { icon: "🥇", accent: "text-yellow-600", bg: "bg-yellow-50" },
-  beatMelinda: { icon: "🎯", accent: "text-rose-600", bg: "bg-rose-50" },
-  streak3: { icon: "🔥", accent: "text-orange-600", bg: "bg-orange-50" },
-  streak6: { icon: "💪", accent: "text-lime-600", bg: "bg-lime-50" },
-  streak10: { icon: "🏆", accent: "text-sky-600", bg: "bg-sky-50" },
-  min5matches: { icon: "🏸", accent: "text-cyan-600", bg: "bg-cyan-50" },
-};
-
-const ALL_BADGES: Achievement[] = [
-    { id: "win5", title: "Novice Winner", description: "Win 5 matches." },
-    { id: "win10", title: "Pro Winner", description: "Win 10 matches." },
-    { id: "win25", title: "Champion", description: "Win 25 matches." },
-    { id: "beatMelinda", title: "Beat Melinda!", description: "Win vs Melinda." },
-    { id: "streak3", title: "Regular", description: "3 sessions in a row." },
-    { id: "streak6", title: "Dedicated", description: "6 sessions in a row." },
-    { id: "streak10", title: "Ironman", description: "10 sessions in a row." },
-    { id: "min5matches", title: "Seasoned Player", description: "Play 5 matches." }
-  ];
-
-export function computeAchievementsFull(playerId: string, matches: Match[], players: Player[]): Achievement[] {
-  const out: Achievement[] = [];
-  const playerMatches = matches.filter((m) => m.teamA.includes(playerId) || m.teamB.includes(playerId));
-  let wins = 0;
-  playerMatches.forEach((m) => {
-    const inA = m.teamA.includes(playerId);
-    const inB = m.teamB.includes(playerId);
-    if (!inA && !inB) return;
-    if (m.winner) {
-      if ((m.winner === "A" && inA) || (m.winner === "B" && inB)) wins++;
-    }
-  });
-  if (wins >= 5) out.push({ id: "win5", title: "Novice Winner", description: "Win 5 matches." });
-  if (wins >= 10) out.push({ id: "win10", title: "Pro Winner", description: "Win 10 matches." });
-  if (wins >= 25) out.push({ id: "win25", title: "Champion", description: "Win 25 matches." });
-
-  const melinda = players.find((p) => p.name.toLowerCase().includes("melinda"));
-  if (melinda) {
-    const beatMelinda = playerMatches.some((m) => {
-      const melInA = m.teamA.includes(melinda.id);
-      const melInB = m.teamB.includes(melinda.id);
-      const inA = m.teamA.includes(playerId);
-      const inB = m.teamB.includes(playerId);
-      if (!(melInA || melInB) || !(inA || inB) || !m.winner) return false;
-      if ((melInA && inA) || (melInB && inB)) return false;
-      return (m.winner === "A" && inA) || (m.winner === "B" && inB);
-    });
-    if (beatMelinda) out.push({ id: "beatMelinda", title: "Beat Melinda!", description: "Won vs Melinda." });
-  }
-  if (playerMatches.length >= 5) out.push({ id: "min5matches", title: "Seasoned Player", description: "Play 5 matches." });
-  const streak = computeAttendanceStreak(playerId, matches);
-  if (streak >= 3) out.push({ id: "streak3", title: "Regular", description: "Streak: 3" });
-  if (streak >= 6) out.push({ id: "streak6", title: "Dedicated", description: "Streak: 6" });
-  if (streak >= 10) out.push({ id: "streak10", title: "Ironman", description: "Streak: 10" });
-  return out;
-}
-
 const TRAINING_DAYS = [1, 3];
 function nextTrainingDate(from: Date = new Date()): Date {
   const d = new Date(from);
   while (!TRAINING_DAYS.includes(d.getDay())) d.setDate(d.getDate() + 1);
   return d;
 }
-function computeAttendanceStreak(playerId: string, matches: Match[]): number {
-  if (!matches.length) return 0;
-  const allDates = Array.from(new Set(matches.map((m) => m.date))).sort();
-  const playedDates = new Set<string>();
-  matches.forEach((m) => {
-    if (m.teamA.includes(playerId) || m.teamB.includes(playerId)) playedDates.add(m.date);
-  });
-  let best = 0; let current = 0;
-  for (const d of allDates) {
-    if (playedDates.has(d)) { current++; if (current > best) best = current; } else { current = 0; }
+function upcomingTrainingDates(count: number, from: Date = new Date()): string[] {
+  const out: string[] = [];
+  const d = nextTrainingDate(from);
+  while (out.length < count) {
+    out.push(fmt(d));
+    d.setDate(d.getDate() + 1);
+    d.setTime(nextTrainingDate(d).getTime());
   }
-  return best;
+  return out;
+}
+const EMOJI_GROUPS: Record<string, string[]> = {
+  Animals: ["🐶","🐱","🐭","🐹","🐰","🦊","🐻","🐼","🐨","🐯","🦁","🐮","🐷","🐸","🐵","🐔","🐧","🐦","🐤","🦆","🦅","🦉","🐺","🦄","🐝","🐛","🦋","🐌","🐞","🐢","🐍","🦎","🐙","🦑","🦀","🐡","🐠","🐳","🐬","🐊"],
+  Sports: ["🏸","🏓","🎾","⚽","🏀","🏐","🏈","⚾","🥎","🏉","🎳","🏒","🥊","🥋","⛳","🏹","🎯","🛹","⛸️","🚴","🏊","🧗","🥇","🏆"],
+  Faces: ["😀","😎","🤓","🥳","😇","🤠","🤖","👻","👽","🤡","😈","🥶","🤩","😴","🧐","🤪","🥸","😺"],
+  Nature: ["🌵","🌲","🌸","🌻","🌹","🍀","🍁","🍄","🌈","⭐","🔥","⚡","❄️","🌙","☀️","🌊"],
+  Food: ["🍎","🍌","🍉","🍓","🍒","🥑","🌶️","🥕","🍕","🍔","🌮","🍩","🍪","🧁","☕","🍺"],
+  Objects: ["🚀","🎸","🎺","🎲","🎮","💎","👑","🎩","🕶️","🎈","🎁","⚓","🔑","💡","📚","🧲"],
+};
+const EMOJIS = Object.values(EMOJI_GROUPS).flat();
+const AVATAR_COLORS = ["#84cc16", "#22c55e", "#14b8a6", "#06b6d4", "#3b82f6", "#8b5cf6", "#ec4899", "#f43f5e", "#f97316", "#eab308", "#64748b"];
+
+// profil-mezők módosítása; a "name" címke mindig ezekből áll össze
+function withProfile(p: Player, patch: PlayerProfile): Player {
+  const next: Player = { ...p, ...patch };
+  const displayName = (next.displayName ?? getBaseName(p.name)).trim();
+  next.displayName = displayName;
+  next.name = next.emoji ? `${next.emoji} ${displayName}` : displayName;
+  if (!next.emoji) delete next.emoji;
+  if (!next.nickname?.trim()) delete next.nickname;
+  if (!next.color) delete next.color;
+  return next;
 }
-const EMOJIS = ["🐶","🐱","🐭","🐹","🐰","🦊","🐻","🐼","🐨","🐯","🦁","🐮","🐷","🐸","🐵","🐔","🐧","🐦","🐤","🦆","🦅","🦉","🐺","🦄","🐝","🐛","🦋","🐌","🐞","🐢","🐍","🦎","🐙","🦑","🦀","🐡","🐠","🐳","🐬","🐊"];
-
-const ADMIN_PIN = "2051"; // ide írd a saját 4 jegyű PIN kódod
-
-// ========================= Data Sync =========================
-// ========================= Data Sync =========================
-function useLeague() {
-  const [data, setData] = useState<LeagueDoc>({
-    players: [],
-    matches: [],
-    backups: [],
-  });
 
-  const suppress = useRef(false);
-  const tRef = useRef<number | null>(null);
+// régi, "🐶 Anna" formájú nevek szétbontása profil-mezőkre
+const migratePlayerProfile = (p: Player): Player => (p.displayName !== undefined ? p : withProfile(p, splitLegacyName(p.name)));
+
+// régi liga: profil-mezők a nevekből; beállítások híján alapszabályok, a név szerinti bounty helyett megjelölt játékos
+const needsProfileUpgrade = (league: LeagueDoc) => !league.settings || league.players.some((p) => p.displayName === undefined);
+function profileUpgrade(league: LeagueDoc): { players: Player[]; settings?: LeagueSettings } {
+  return {
+    players: league.players.map((p) => {
+      const next = migratePlayerProfile(p);
+      return !league.settings && isLegacyBounty(p) ? { ...next, bounty: true } : next;
+    }),
+    ...(league.settings ? {} : { settings: DEFAULT_SETTINGS }),
+  };
+}
 
-useEffect(() => {
-  const ref = doc(db, "leagues", "default");
+// ========================= Admin Auth =========================
+// Admin az, akinek "admin" custom claimje van, vagy akinek a uid-ja szerepel az
+// admins/{uid} dokumentumként (ezt csak konzolból / Admin SDK-val lehet írni,
+// lásd firestore.rules). Az anonim felhasználók csak olvasnak.
+async function checkIsAdmin(user: User | null): Promise<boolean> {
+  if (!user || user.isAnonymous) return false;
+  try {
+    const token = await getIdTokenResult(user);
+    if (token.claims.admin === true) return true;
+    const snap = await getDoc(doc(db, "admins", user.uid));
+    return snap.exists();
+  } catch (err) {
+    console.error("Admin check failed:", err);
+    return false;
+  }
+}
 
-  // 1) Auth állapot figyelés
-  const unsubAuth = onAuthStateChanged(auth, async (user) => {
-    // ha még nincs user → beléptetünk anonként
-    if (!user) {
-      try {
-        await signInAnonymously(auth);
-      } catch (e) {
-        console.error("Anonymous sign-in failed:", e);
-      }
-      return; // majd a következő auth state change-nél folytatjuk
-    }
+function useAdminAuth() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [checking, setChecking] = useState(true);
 
-    // 2) ✅ itt már biztosan van user → indulhat a Firestore listener
-    const unsubSnap = onSnapshot(
-      ref,
-      async (snap) => {
-        if (snap.metadata.hasPendingWrites) return;
+  useEffect(() => {
+    let cancelled = false;
+    const unsub = onAuthStateChanged(auth, async (u) => {
+      setUser(u);
+      setChecking(true);
+      const ok = await checkIsAdmin(u);
+      if (cancelled) return;
+      setIsAdmin(ok);
+      setChecking(false);
+    });
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, []);
 
-        if (snap.exists()) {
-          suppress.current = true;
-          setData(snap.data() as LeagueDoc);
-          setTimeout(() => (suppress.current = false), 0);
-        } else {
-          await setDoc(ref, {
-            players: [],
-            matches: [],
-            backups: [],
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          });
-        }
-      },
-      (err) => {
-        console.error("Firestore snapshot error:", err);
-      }
-    );
+  // true, ha a fiók admin; különben kilépteti (vissza anonimra) és false
+  const signIn = useCallback(async (email: string, password: string) => {
+    const cred = await signInWithEmailAndPassword(auth, email, password);
+    const ok = await checkIsAdmin(cred.user);
+    if (!ok) await signOut(auth);
+    setIsAdmin(ok);
+    return ok;
+  }, []);
 
-    // ha auth state újra változik, takarítsunk
-    return () => unsubSnap();
-  });
+  const logOut = useCallback(async () => {
+    await signOut(auth);
+  }, []);
 
-  return () => unsubAuth();
-}, []);
+  return { user, isAdmin, checking, signIn, logOut };
+}
 
+const ROLE_STORAGE_KEY = "bia-tollas-role";
+
+// ========================= Leagues =========================
+// A "default" liga az eredeti leagues/default dokumentum; a többi ?league=<id>-vel érhető el.
+const DEFAULT_LEAGUE_ID = "default";
+const LEAGUE_ID_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const slugify = (title: string) =>
+  title
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+
+function leagueIdFromUrl(): string {
+  const id = new URLSearchParams(window.location.search).get("league")?.trim().toLowerCase() ?? "";
+  return LEAGUE_ID_RE.test(id) ? id : DEFAULT_LEAGUE_ID;
+}
 
-  // Patch-style write (merge), debounced
-  const write = useCallback((patch: Partial<LeagueDoc>) => {
-    if (tRef.current) window.clearTimeout(tRef.current);
+function setLeagueIdInUrl(id: string) {
+  const url = new URL(window.location.href);
+  if (id === DEFAULT_LEAGUE_ID) url.searchParams.delete("league");
+  else url.searchParams.set("league", id);
+  window.history.pushState({}, "", url);
+}
 
-    setData((prev) => {
-      const next = { ...prev, ...patch };
+const leagueRef = (leagueId: string) => doc(db, "leagues", leagueId);
 
-      if (suppress.current) return next;
+export type LeagueSummary = { id: string; title: string };
 
-      tRef.current = window.setTimeout(async () => {
-        try {
-await setDoc(
-  doc(db, "leagues", "default"),
-  stripUndefinedDeep({ ...next, updatedAt: serverTimestamp() } as LeagueDoc),
-  { merge: true }
-);
-        } catch (err) {
-          console.error(err);
-        }
-      }, 120);
+// a választóhoz: az összes liga azonosítója és neve
+function useLeagueDirectory() {
+  const [leagues, setLeagues] = useState<LeagueSummary[]>([]);
 
-      return next;
+  useEffect(() => {
+    let unsubSnap: (() => void) | null = null;
+    const unsubAuth = onAuthStateChanged(auth, (user) => {
+      unsubSnap?.();
+      unsubSnap = null;
+      if (!user) return;
+      unsubSnap = onSnapshot(
+        collection(db, "leagues"),
+        (snap) => {
+          setLeagues(
+            snap.docs
+              .map((d) => ({ id: d.id, title: String(d.get("title") || "") }))
+              .sort((a, b) => (a.id === DEFAULT_LEAGUE_ID ? -1 : b.id === DEFAULT_LEAGUE_ID ? 1 : (a.title || a.id).localeCompare(b.title || b.id, "hu")))
+          );
+        },
+        (err) => console.error("League list error:", err)
+      );
     });
+    return () => {
+      unsubSnap?.();
+      unsubAuth();
+    };
   }, []);
 
-  // Full replace (NO merge) – for restore/import use-cases
-  const replaceAll = useCallback(async (next: LeagueDoc) => {
-    // local UI update immediately
-    suppress.current = true;
-    setData(next);
-    setTimeout(() => (suppress.current = false), 0);
-
-    const payload: LeagueDoc = {
-      players: Array.isArray(next.players) ? next.players : [],
-      matches: Array.isArray(next.matches) ? next.matches : [],
-      backups: Array.isArray(next.backups) ? next.backups : [],
-      title: next.title,
+  const createLeague = useCallback(async (id: string, title: string) => {
+    await setDoc(leagueRef(id), {
+      title,
+      schemaVersion: 2,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
-    };
-
-    try {
-await setDoc(doc(db, "leagues", "default"), stripUndefinedDeep(payload as LeagueDoc), {
-  merge: false,
-});
-    } catch (err) {
-      console.error(err);
-    }
+    });
   }, []);
 
-  return [data, write, replaceAll] as const;
+  return [leagues, createLeague] as const;
 }
 
-// ========================= Sidebar =========================
-function Sidebar({
-  role,
-  setRole,
-}: {
-  role: "player" | "admin";
-  setRole: (r: "player" | "admin") => void;
-}) {
-  const [imgError, setImgError] = useState(false);
+// ========================= RSVP =========================
+const rsvpId = (date: string, playerId: string) => `${date}__${playerId}`;
+
+// a jelentkezés sorrendjében az első `capacity` fő biztos, a többi várólistán;
+// ha valaki lemondja, a következő automatikusan bekerül
+function rsvpSummary(rsvps: Rsvp[], capacity?: number) {
+  const yes = rsvps.filter((r) => r.status === "yes").sort((a, b) => a.at.toMillis() - b.at.toMillis());
+  const limit = capacity && capacity > 0 ? capacity : Infinity;
+  return {
+    confirmed: yes.slice(0, limit).map((r) => r.playerId),
+    waitlist: yes.slice(limit).map((r) => r.playerId),
+    maybe: rsvps.filter((r) => r.status === "maybe").map((r) => r.playerId),
+    no: rsvps.filter((r) => r.status === "no").map((r) => r.playerId),
+  };
+}
 
-  return (
-    <div className="fixed left-0 top-0 h-full w-64 bg-[#1e293b] text-white flex flex-col shadow-2xl z-50 transition-transform duration-300 md:translate-x-0 -translate-x-full md:block hidden overflow-hidden">
-      {/* 🟢 DEKORÁCIÓ: Háttér "Blobs" (Deep Atmosphere) */}
-      <div className="absolute -top-20 -left-20 w-60 h-60 bg-[#84cc16] rounded-full blur-[80px] opacity-10 pointer-events-none"></div>
-      <div className="absolute bottom-0 right-0 w-60 h-60 bg-teal-500 rounded-full blur-[80px] opacity-10 pointer-events-none"></div>
+function useRsvps(leagueId: string, fromDate: string) {
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
 
-      {/* 🟢 LOGO: Glassmorphism Design */}
-      <div className="p-6 flex flex-col items-center border-b border-white/5 relative z-10">
-        <div className="relative w-40 h-40 mb-6 flex items-center justify-center">
-            {/* Háttérfény (Glow) */}
-            <div className="absolute inset-0 bg-[#84cc16] rounded-full blur-2xl opacity-20"></div>
-            
-            {/* Üveg Konténer */}
-            <div className="relative w-full h-full bg-white/5 backdrop-blur-md border border-white/10 rounded-full flex items-center justify-center shadow-2xl overflow-hidden p-1">
-                {!imgError ? (
-                    <img src="/logo.png" alt="Logo" className="w-full h-full object-cover rounded-full" onError={() => setImgError(true)} />
-                ) : (
-                    <span className="text-4xl">🏸</span>
-                )}
-            </div>
-        </div>
-        <h1 className="text-xl font-black tracking-wider uppercase text-white drop-shadow-md">Biatorbágy</h1>
-        <p className="text-xs text-[#84cc16] font-bold uppercase tracking-[0.2em] mt-1">Badminton</p>
-      </div>
+  useEffect(() => {
+    setRsvps([]);
+    let unsubSnap: (() => void) | null = null;
+    const unsubAuth = onAuthStateChanged(auth, (user) => {
+      unsubSnap?.();
+      unsubSnap = null;
+      if (!user) return;
+      unsubSnap = onSnapshot(
+        query(collection(db, "leagues", leagueId, "rsvps"), where("date", ">=", fromDate)),
+        (snap) =>
+          setRsvps(
+            snap.docs.map((d) => {
+              // a még fel nem ért serverTimestamp helyi becslést kap; a régi bejegyzésekben ISO szöveg áll
+              const r = d.data({ serverTimestamps: "estimate" });
+              return { ...r, at: typeof r.at === "string" ? Timestamp.fromDate(new Date(r.at)) : r.at } as Rsvp;
+            })
+          ),
+        (err) => console.error("RSVP snapshot error:", err)
+      );
+    });
+    return () => {
+      unsubSnap?.();
+      unsubAuth();
+    };
+  }, [leagueId, fromDate]);
+
+  const setRsvp = useCallback(
+    async (date: string, playerId: string, status: RsvpStatus) => {
+      const prev = rsvps.find((r) => r.date === date && r.playerId === playerId);
+      if (prev?.status === status) return;
+      // a helyet az "igen" időpontja adja – más válasz után újra igen = sor vége
+      try {
+        await setDoc(doc(db, "leagues", leagueId, "rsvps", rsvpId(date, playerId)), { date, playerId, status, at: serverTimestamp() });
+      } catch (err) {
+        console.error("RSVP failed:", err);
+      }
+    },
+    [leagueId, rsvps]
+  );
+
+  return [rsvps, setRsvp] as const;
+}
+
+// ========================= Backups =========================
+// Pillanatképek a fő dokumentumon kívül: leagues/{leagueId}/backups/{backupId}
+const DEFAULT_BACKUP_RETENTION = 20;
+
+function useBackups(leagueId: string, enabled: boolean) {
+  const [backups, setBackups] = useState<Backup[]>([]);
+
+  useEffect(() => {
+    setBackups([]);
+    if (!enabled) return;
+    const unsub = onSnapshot(
+      query(collection(db, "leagues", leagueId, "backups"), orderBy("createdAt", "desc")),
+      (snap) => setBackups(snap.docs.map((d) => d.data() as Backup)),
+      (err) => console.error("Backups snapshot error:", err)
+    );
+    return () => unsub();
+  }, [leagueId, enabled]);
+
+  const saveBackup = useCallback(
+    (b: Backup) => setDoc(doc(db, "leagues", leagueId, "backups", b.id), stripUndefinedDeep(b)),
+    [leagueId]
+  );
+  const deleteBackup = useCallback(
+    (id: string) => deleteDoc(doc(db, "leagues", leagueId, "backups", id)),
+    [leagueId]
+  );
+
+  return { backups, saveBackup, deleteBackup };
+}
+
+// mi változna visszaállításkor (a mentés a "cél", a mostani állapot a kiindulás)
+function backupDiff(b: Backup, players: Player[], matches: Match[]) {
+  const nowP = new Set(players.map((p) => p.id));
+  const nowM = new Map(matches.map((m) => [m.id, m]));
+  const bakP = new Set(b.data.players.map((p) => p.id));
+  const bakM = new Set(b.data.matches.map((m) => m.id));
+  return {
+    playersAdded: b.data.players.filter((p) => !nowP.has(p.id)).length,
+    playersRemoved: players.filter((p) => !bakP.has(p.id)).length,
+    matchesAdded: b.data.matches.filter((m) => !nowM.has(m.id)).length,
+    matchesRemoved: matches.filter((m) => !bakM.has(m.id)).length,
+    resultsChanged: b.data.matches.filter((m) => nowM.has(m.id) && nowM.get(m.id)!.winner !== m.winner).length,
+  };
+}
+
+// ========================= Audit Log =========================
+const AUDIT_LIMIT = 300;
+const AUDIT_LABELS: Record<AuditAction, string> = {
+  "add-match": "Match added",
+  "set-result": "Result recorded",
+  "clear-result": "Result cleared",
+  requeue: "Match requeued",
+  "delete-match": "Match deleted",
+  "add-player": "Player added",
+  "edit-player": "Player edited",
+  "remove-player": "Player removed",
+  "merge-player": "Players merged",
+  "upgrade-profiles": "Profiles upgraded",
+  "edit-settings": "Scoring rules changed",
+  "edit-badges": "Badges changed",
+  "replace-all": "League replaced",
+  repair: "Data repaired",
+  undo: "Undo",
+};
+
+function useAuditLog(leagueId: string, enabled: boolean) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  useEffect(() => {
+    setEntries([]);
+    if (!enabled) return;
+    const unsub = onSnapshot(
+      query(collection(db, "leagues", leagueId, "audit"), orderBy("at", "desc"), limit(AUDIT_LIMIT)),
+      (snap) => setEntries(snap.docs.map((d) => d.data() as AuditEntry)),
+      (err) => console.error("Audit log snapshot error:", err)
+    );
+    return () => unsub();
+  }, [leagueId, enabled]);
+
+  const appendAudit = useCallback((e: AuditEntry) => appendAuditEntry(leagueId, e), [leagueId]);
+
+  return { entries, appendAudit };
+}
+
+const appendAuditEntry = (leagueId: string, e: AuditEntry) =>
+  setDoc(doc(db, "leagues", leagueId, "audit", e.id), stripUndefinedDeep(e));
+
+// mely elemek változtak (előtte / utána)
+function itemChanges(kind: "match", prev: Match[], next: Match[]): AuditChange[];
+function itemChanges(kind: "player", prev: Player[], next: Player[]): AuditChange[];
+function itemChanges(kind: "match" | "player", prev: (Match | Player)[], next: (Match | Player)[]): AuditChange[] {
+  const before = byId(prev);
+  const after = byId(next);
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((id) => canonical(before[id]) !== canonical(after[id]))
+    .map((id) => ({ kind, id, before: before[id] ?? null, after: after[id] ?? null }) as AuditChange);
+}
+
+// visszavonás: minden érintett elem a "before" állapotába kerül
+function revertChanges<T extends { id: string }>(list: T[], changes: { id: string; before: T | null }[]): T[] {
+  const revert = new Map(changes.map((c) => [c.id, c.before]));
+  const kept = list.filter((x) => !revert.has(x.id) || revert.get(x.id)).map((x) => (revert.get(x.id) as T) ?? x);
+  const known = new Set(list.map((x) => x.id));
+  return [...kept, ...changes.filter((c) => c.before && !known.has(c.id)).map((c) => c.before as T)];
+}
+
+// ========================= Data Sync =========================
+// Séma v2: a liga-dokumentumban csak metaadat van, minden más külön dokumentum:
+//   leagues/{id}/players/{playerId}
+//   leagues/{id}/matches/{matchId}
+//   leagues/{id}/sessions/{date}
+// A sorrendet a tárolt _seq mező adja (olvasáskor levesszük).
+// v1 (legacy): minden egy dokumentumban – migrálásig így olvassuk és írjuk.
+const SCHEMA_VERSION = 2;
+const BATCH_LIMIT = 450;
+const COLLECTIONS = ["players", "matches", "sessions"] as const;
+type CollectionName = (typeof COLLECTIONS)[number];
+type LeagueStatus = "loading" | "ready" | "missing";
+
+const isLegacyLeague = (raw: Partial<LeagueDoc>) => (raw?.schemaVersion ?? 1) < SCHEMA_VERSION;
+
+// a fő dokumentum mezői a tömbök nélkül
+function leagueMeta(raw: Partial<LeagueDoc>): Partial<LeagueDoc> {
+  const meta = { ...(raw ?? {}) };
+  delete meta.players;
+  delete meta.matches;
+  delete meta.sessions;
+  return meta;
+}
+
+type WriteOp = { ref: DocumentReference; data?: DocumentData; merge?: boolean };
+
+// data nélkül = törlés; 450-esével batch-elve (Firestore limit: 500)
+// Több köteg együtt nem atomi: `guard` esetén előbb jelzőt teszünk a liga-dokumentumra,
+// és csak az utolsó köteg törli – ha közben megszakad, a félkész állapot látszik az adminnak.
+async function commitOps(ops: WriteOp[], guard?: { leagueId: string; label: string }) {
+  const chunks: WriteOp[][] = [];
+  for (let i = 0; i < ops.length; i += BATCH_LIMIT) chunks.push(ops.slice(i, i + BATCH_LIMIT));
+  if (guard && chunks.length > 1) {
+    const ref = leagueRef(guard.leagueId);
+    await setDoc(ref, { interruptedWrite: { label: guard.label, startedAt: new Date().toISOString() } }, { merge: true });
+    chunks[chunks.length - 1].push({ ref, data: { interruptedWrite: deleteField() }, merge: true });
+  }
+  let done = 0;
+  for (const chunk of chunks) {
+    const batch = writeBatch(db);
+    chunk.forEach((op) => {
+      if (op.data === undefined) batch.delete(op.ref);
+      else if (op.merge) batch.set(op.ref, op.data, { merge: true });
+      else batch.set(op.ref, op.data);
+    });
+    try {
+      await batch.commit();
+    } catch (err) {
+      if (!done) throw err;
+      throw new Error(`Only ${done} of ${ops.length} changes were saved (${(err as Error).message}). The league is in a partial state – restore the snapshot taken before it.`);
+    }
+    done += chunk.length;
+  }
+}
+
+const itemRef = (leagueId: string, name: CollectionName, id: string) => doc(db, "leagues", leagueId, name, id);
+
+// csak a ténylegesen változott dokumentumok
+function collectionOps(
+  leagueId: string,
+  name: CollectionName,
+  prev: Record<string, object>,
+  next: Record<string, object>,
+  seqOf: (id: string) => number
+): WriteOp[] {
+  const ops: WriteOp[] = [];
+  Object.entries(next).forEach(([id, value]) => {
+    if (prev[id] !== undefined && canonical(prev[id]) === canonical(value)) return;
+    ops.push({ ref: itemRef(leagueId, name, id), data: stripUndefinedDeep({ ...value, _seq: seqOf(id) }) });
+  });
+  Object.keys(prev).forEach((id) => {
+    if (next[id] === undefined) ops.push({ ref: itemRef(leagueId, name, id) });
+  });
+  return ops;
+}
+
+// teljes csere v2 formátumban (import / visszaállítás / migráció)
+function fullWriteOps(leagueId: string, next: LeagueDoc, existing: Record<CollectionName, string[]>): WriteOp[] {
+  const records: Record<CollectionName, Record<string, object>> = {
+    players: byId(next.players ?? []),
+    matches: byId(next.matches ?? []),
+    sessions: next.sessions ?? {},
+  };
+  const ops: WriteOp[] = [];
+  COLLECTIONS.forEach((name) => {
+    Object.keys(records[name]).forEach((id, i) =>
+      ops.push({ ref: itemRef(leagueId, name, id), data: stripUndefinedDeep({ ...records[name][id], _seq: i }) })
+    );
+    existing[name].filter((id) => records[name][id] === undefined).forEach((id) => ops.push({ ref: itemRef(leagueId, name, id) }));
+  });
+  return ops;
+}
+
+async function readLeagueCollections(leagueId: string) {
+  const snaps = await Promise.all(COLLECTIONS.map((name) => getDocs(collection(db, "leagues", leagueId, name))));
+  const read = (i: number) =>
+    snaps[i].docs
+      .map((d) => {
+        const value = d.data();
+        const seq = typeof value._seq === "number" ? value._seq : 0;
+        delete value._seq;
+        return { id: d.id, seq, value };
+      })
+      .sort((x, y) => x.seq - y.seq || x.id.localeCompare(y.id));
+  return {
+    players: read(0).map((x) => x.value as Player),
+    matches: read(1).map((x) => x.value as Match),
+    sessions: Object.fromEntries(read(2).map((x) => [x.id, x.value as SessionInfo])),
+  };
+}
+
+/**
+ * Egyszeri migráció a régi, egy-dokumentumos formából.
+ * Kiírja a külön dokumentumokat, visszaolvassa, és az export-csomag szerint
+ * összeveti a régivel; csak egyezés esetén vált v2-re és törli a régi tömböket.
+ */
+async function migrateLegacyLeague(leagueId: string, legacy: LeagueDoc) {
+  const existing = await readLeagueCollections(leagueId);
+  const ops = fullWriteOps(leagueId, legacy, {
+    players: existing.players.map((p) => p.id),
+    matches: existing.matches.map((m) => m.id),
+    sessions: Object.keys(existing.sessions),
+  });
+  (legacy.backups ?? []).forEach((b) => ops.push({ ref: doc(db, "leagues", leagueId, "backups", b.id), data: stripUndefinedDeep(b) }));
+  await commitOps(ops);
+
+  const readBack = await readLeagueCollections(leagueId);
+  const expected = buildExportBundle(legacy, leagueId, []).league;
+  const actual = buildExportBundle({ ...legacy, ...readBack }, leagueId, []).league;
+  const mismatched = (["players", "matches", "sessions"] as const).filter(
+    (k) => canonical(expected[k]) !== canonical(actual[k])
+  );
+  if (mismatched.length) {
+    throw new Error(`Migration check failed (${mismatched.join(", ")} differ). The legacy data was left in place.`);
+  }
+
+  await setDoc(
+    leagueRef(leagueId),
+    {
+      schemaVersion: SCHEMA_VERSION,
+      players: deleteField(),
+      matches: deleteField(),
+      sessions: deleteField(),
+      backups: deleteField(),
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+// ========================= Offline Queue =========================
+// Térerő nélkül a tranzakciók nem futnak le, ezért a műveletek sorba kerülnek
+// (localStorage), és visszakapcsoláskor ugyanazzal az ütközés-ellenőrzéssel mennek fel.
+// audit: a naplóbejegyzés csak a sikeres felküldés után kerül be (elvetett műveletnél soha)
+// items: játékos- és meccs-változások együtt, egy tranzakcióban (javítás, összevonás, profil)
+type ItemDiff<T> = { prev: T[]; next: T[] };
+type PendingInput = (
+  | { kind: "matches"; prev: Match[]; next: Match[] }
+  | { kind: "addPlayer"; player: Player }
+  | { kind: "items"; players?: ItemDiff<Player>; matches?: ItemDiff<Match> }
+) & { audit?: AuditEntry };
+type CommitResult = "saved" | "queued" | "failed";
+type PendingOp = PendingInput & { id: string; at: string };
+type SyncState = "synced" | "pending" | "offline" | "error";
+
+const pendingKey = (leagueId: string) => `bia-tollas-pending-${leagueId}`;
+
+function loadPending(leagueId: string): PendingOp[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(pendingKey(leagueId)) ?? "[]");
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePending(leagueId: string, ops: PendingOp[]) {
+  if (ops.length) localStorage.setItem(pendingKey(leagueId), JSON.stringify(ops));
+  else localStorage.removeItem(pendingKey(leagueId));
+}
+
+// a sorba csak a változott elemek kerülnek
+function changedItems<T extends { id: string }>(prev: T[], next: T[]): ItemDiff<T> {
+  const before = byId(prev);
+  const after = byId(next);
+  const changed = (id: string) => canonical(before[id]) !== canonical(after[id]);
+  return { prev: prev.filter((x) => changed(x.id)), next: next.filter((x) => changed(x.id)) };
+}
+
+function applyDiff<T extends { id: string }>(list: T[], diff: ItemDiff<T>): T[] {
+  const next = byId(diff.next);
+  const removed = new Set(diff.prev.filter((x) => !next[x.id]).map((x) => x.id));
+  const known = new Set(list.map((x) => x.id));
+  return [...list.filter((x) => !removed.has(x.id)).map((x) => next[x.id] ?? x), ...diff.next.filter((x) => !known.has(x.id))];
+}
+
+// a még fel nem küldött módosítások rávetítése a szerver szerinti állapotra
+function applyPending(data: LeagueDoc, ops: PendingOp[]): LeagueDoc {
+  return ops.reduce((acc, op) => {
+    if (op.kind === "addPlayer") {
+      return acc.players.some((p) => p.id === op.player.id) ? acc : { ...acc, players: [...acc.players, op.player] };
+    }
+    if (op.kind === "items") {
+      return {
+        ...acc,
+        ...(op.players ? { players: applyDiff(acc.players, op.players) } : {}),
+        ...(op.matches ? { matches: applyDiff(acc.matches, op.matches) } : {}),
+      };
+    }
+    return { ...acc, matches: applyDiff(acc.matches, op) };
+  }, data);
+}
+
+const isNetworkError = (err: unknown) => !navigator.onLine || (err as { code?: string })?.code === "unavailable";
+
+// duplikált név keresése: a megjelenített név számít, az emoji nem
+const playerNameKey = (p: Player) => normName(realName(p));
+
+function runPendingOp(leagueId: string, op: PendingOp, players: Player[]) {
+  if (op.kind === "addPlayer") return addPlayerTx(db, leagueId, op.player, playerNameKey);
+  const nameOf = (id: string) => players.find((p) => p.id === id)?.name || "Unknown";
+  const describe = (m: Match) => `Match ${m.date} (${formatTeam(m.teamA, nameOf)} vs ${formatTeam(m.teamB, nameOf)})`;
+  if (op.kind === "matches") return saveItemsTx(db, leagueId, "matches", op.prev, op.next, describe);
+  return saveItemSetsTx(db, leagueId, [
+    ...(op.players ? [{ name: "players" as const, ...op.players, describe: (p: Player) => realName(p) }] : []),
+    ...(op.matches ? [{ name: "matches" as const, ...op.matches, describe }] : []),
+  ]);
+}
+
+function useOnline() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => {
+      window.removeEventListener("online", on);
+      window.removeEventListener("offline", off);
+    };
+  }, []);
+  return online;
+}
+
+// egy edzésnap módosítandó mezői; capacity: null = törlés, present: kit veszünk fel / ki
+type SessionEdit = { courts?: number; capacity?: number | null; present?: { add: string[]; remove: string[] } };
+
+function useLeague(leagueId: string) {
+  const [data, setDataState] = useState<LeagueDoc>({
+    players: [],
+    matches: [],
+    backups: [],
+  });
+  // nem létező (nem default) ligát nem hozunk létre automatikusan
+  const [status, setStatus] = useState<LeagueStatus>("loading");
+
+  const dataRef = useRef<LeagueDoc>(data);
+  const legacyRef = useRef(false);
+  const seqRef = useRef<Record<CollectionName, Map<string, number>>>({
+    players: new Map(),
+    matches: new Map(),
+    sessions: new Map(),
+  });
+  const suppress = useRef(false);
+  const tRef = useRef<number | null>(null);
+  // a szerver szerinti állapot visszatöltése (sikertelen optimista írás után)
+  const resyncRef = useRef<() => void>(() => {});
+
+  // szinkron állapot: sorban álló + épp futó írások, utolsó hiba, ütközés-üzenet
+  const online = useOnline();
+  const pendingRef = useRef<PendingOp[]>(loadPending(leagueId));
+  const [queued, setQueued] = useState(pendingRef.current.length);
+  const [inFlight, setInFlight] = useState(0);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [issue, setIssue] = useState<string | null>(null);
+  const flushingRef = useRef(false);
+
+  const setPending = useCallback((ops: PendingOp[]) => {
+    pendingRef.current = ops;
+    savePending(leagueId, ops);
+    setQueued(ops.length);
+  }, [leagueId]);
+
+  const track = useCallback(async (p: Promise<void>) => {
+    setInFlight((n) => n + 1);
+    try {
+      await p;
+      setSyncError(null);
+    } finally {
+      setInFlight((n) => n - 1);
+    }
+  }, []);
+
+  const setData = useCallback((next: LeagueDoc) => {
+    dataRef.current = next;
+    setDataState(next);
+  }, []);
+
+useEffect(() => {
+  const ref = leagueRef(leagueId);
+  setData({ players: [], matches: [], backups: [] });
+  setStatus("loading");
+  legacyRef.current = false;
+  pendingRef.current = loadPending(leagueId);
+  setQueued(pendingRef.current.length);
+  setIssue(null);
+  COLLECTIONS.forEach((name) => seqRef.current[name].clear());
+
+  let unsubDoc: (() => void) | null = null;
+  let unsubCols: (() => void)[] = [];
+  let meta: Partial<LeagueDoc> = {};
+  const stores: Record<CollectionName, Map<string, { seq: number; value: DocumentData }>> = {
+    players: new Map(),
+    matches: new Map(),
+    sessions: new Map(),
+  };
+  const loaded = new Set<CollectionName>();
+
+  const sorted = (name: CollectionName) =>
+    Array.from(stores[name].entries()).sort(([ia, a], [ib, b]) => a.seq - b.seq || ia.localeCompare(ib));
+  const rebuild = () => {
+    if (legacyRef.current || loaded.size < COLLECTIONS.length) return;
+    const server: LeagueDoc = {
+      ...meta,
+      players: sorted("players").map(([, x]) => x.value as Player),
+      matches: sorted("matches").map(([, x]) => x.value as Match),
+      sessions: Object.fromEntries(sorted("sessions").map(([id, x]) => [id, x.value as SessionInfo])),
+    };
+    setData(applyPending(server, pendingRef.current));
+    setStatus("ready");
+  };
+
+  resyncRef.current = rebuild;
+
+  const stopCollections = () => {
+    unsubCols.forEach((u) => u());
+    unsubCols = [];
+    loaded.clear();
+    COLLECTIONS.forEach((name) => stores[name].clear());
+  };
+  // csak a változásokat dolgozzuk fel (docChanges), nem a teljes listát
+  const startCollections = () => {
+    if (unsubCols.length) return;
+    unsubCols = COLLECTIONS.map((name) =>
+      onSnapshot(
+        collection(db, "leagues", leagueId, name),
+        (snap) => {
+          snap.docChanges().forEach((ch) => {
+            if (ch.type === "removed") {
+              stores[name].delete(ch.doc.id);
+              seqRef.current[name].delete(ch.doc.id);
+              return;
+            }
+            const value = ch.doc.data();
+            const seq = typeof value._seq === "number" ? value._seq : 0;
+            delete value._seq;
+            stores[name].set(ch.doc.id, { seq, value });
+            seqRef.current[name].set(ch.doc.id, seq);
+          });
+          loaded.add(name);
+          rebuild();
+        },
+        (err) => {
+          console.error(`Firestore ${name} snapshot error:`, err);
+          setSyncError(err.message);
+        }
+      )
+    );
+  };
+
+  // 1) Auth állapot figyelés
+  const unsubAuth = onAuthStateChanged(auth, async (user) => {
+    unsubDoc?.();
+    unsubDoc = null;
+    stopCollections();
+
+    // ha még nincs user → beléptetünk anonként
+    if (!user) {
+      try {
+        await signInAnonymously(auth);
+      } catch (e) {
+        console.error("Anonymous sign-in failed:", e);
+      }
+      return; // majd a következő auth state change-nél folytatjuk
+    }
+
+    // 2) ✅ itt már biztosan van user → indulhat a Firestore listener
+    unsubDoc = onSnapshot(
+      ref,
+      async (snap) => {
+        if (snap.exists()) {
+          const raw = snap.data();
+          if (isLegacyLeague(raw)) {
+            legacyRef.current = true;
+            stopCollections();
+            if (snap.metadata.hasPendingWrites) return;
+            suppress.current = true;
+            setData(raw as LeagueDoc);
+            setStatus("ready");
+            setTimeout(() => (suppress.current = false), 0);
+          } else {
+            legacyRef.current = false;
+            meta = leagueMeta(raw);
+            startCollections();
+            rebuild();
+          }
+        } else if (leagueId === DEFAULT_LEAGUE_ID) {
+          // anonim felhasználónál a szabályok ezt elutasítják – ilyenkor egy admin hozza majd létre
+          try {
+            await setDoc(ref, {
+              schemaVersion: SCHEMA_VERSION,
+              createdAt: serverTimestamp(),
+              updatedAt: serverTimestamp(),
+            });
+          } catch (err) {
+            console.error("Could not create the default league:", err);
+          }
+        } else {
+          setStatus("missing");
+        }
+      },
+      (err) => {
+        console.error("Firestore snapshot error:", err);
+        setSyncError(err.message);
+      }
+    );
+  });
+
+  // liga-váltáskor / unmountkor takarítsunk
+  return () => {
+    unsubDoc?.();
+    stopCollections();
+    unsubAuth();
+  };
+}, [leagueId, setData]);
+
+  const seqOf = useCallback((name: CollectionName) => {
+    let fresh = Date.now();
+    return (id: string) => {
+      const map = seqRef.current[name];
+      if (!map.has(id)) map.set(id, fresh++);
+      return map.get(id)!;
+    };
+  }, []);
+
+  // Patch-style write: v2-ben csak a változott dokumentumok mennek fel
+  const write = useCallback((patch: Partial<LeagueDoc>) => {
+    const next = { ...dataRef.current, ...patch };
+
+    if (legacyRef.current) {
+      // régi forma: debounce-olt teljes dokumentum írás
+      if (tRef.current) window.clearTimeout(tRef.current);
+      setData(next);
+      if (suppress.current) return;
+      tRef.current = window.setTimeout(async () => {
+        try {
+await track(setDoc(
+  leagueRef(leagueId),
+  stripUndefinedDeep({ ...next, updatedAt: serverTimestamp() } as LeagueDoc),
+  { merge: true }
+));
+        } catch (err) {
+          console.error(err);
+          setSyncError((err as Error).message);
+        }
+      }, 120);
+      return;
+    }
+
+    const prev = dataRef.current;
+    setData(next);
+    const ops: WriteOp[] = [];
+    if (patch.players) ops.push(...collectionOps(leagueId, "players", byId(prev.players), byId(next.players), seqOf("players")));
+    if (patch.matches) ops.push(...collectionOps(leagueId, "matches", byId(prev.matches), byId(next.matches), seqOf("matches")));
+    if (patch.sessions) ops.push(...collectionOps(leagueId, "sessions", prev.sessions ?? {}, next.sessions ?? {}, seqOf("sessions")));
+    const metaPatch = leagueMeta(patch);
+    if (Object.keys(metaPatch).length) {
+      ops.push({ ref: leagueRef(leagueId), data: stripUndefinedDeep({ ...metaPatch, updatedAt: serverTimestamp() }), merge: true });
+    }
+    // offline a Firestore saját sora tartja (IndexedDB), a promise visszakapcsoláskor teljesül
+    track(commitOps(ops)).catch((err) => {
+      console.error(err);
+      setSyncError((err as Error).message);
+    });
+  }, [leagueId, setData, seqOf, track]);
+
+  // edzésnap mezőnként (merge): más eszköz párhuzamos módosítása a többi mezőn megmarad,
+  // a jelenlét pedig hozzáadás / elvétel, nem a teljes lista felülírása
+  const updateSession = useCallback((date: string, edit: SessionEdit) => {
+    const cur = dataRef.current.sessions?.[date] ?? {};
+    const next: SessionInfo = { ...cur };
+    if (edit.courts !== undefined) next.courts = edit.courts;
+    if (edit.capacity) next.capacity = edit.capacity;
+    else if (edit.capacity !== undefined) delete next.capacity;
+    if (edit.present) {
+      const { add, remove } = edit.present;
+      const kept = (cur.present ?? []).filter((id) => !remove.includes(id));
+      next.present = [...kept, ...add.filter((id) => !kept.includes(id))];
+    }
+    const sessions = { ...(dataRef.current.sessions ?? {}), [date]: next };
+    if (legacyRef.current) return write({ sessions });
+
+    setData({ ...dataRef.current, sessions });
+    const ref = itemRef(leagueId, "sessions", date);
+    const fields: DocumentData = { _seq: seqOf("sessions")(date) };
+    if (edit.courts !== undefined) fields.courts = edit.courts;
+    if (edit.capacity !== undefined) fields.capacity = edit.capacity || deleteField();
+    const ops: WriteOp[] = [{ ref, data: fields, merge: true }];
+    if (edit.present?.add.length) ops.push({ ref, data: { present: arrayUnion(...edit.present.add) }, merge: true });
+    if (edit.present?.remove.length) ops.push({ ref, data: { present: arrayRemove(...edit.present.remove) }, merge: true });
+    track(commitOps(ops)).catch((err) => {
+      console.error(err);
+      setSyncError((err as Error).message);
+    });
+  }, [leagueId, setData, seqOf, track, write]);
+
+  // Full replace (NO merge) – for restore/import use-cases; mindig v2 formában ír
+  const replaceAll = useCallback(async (next: LeagueDoc, label = "Replace") => {
+    const prev = dataRef.current;
+    // local UI update immediately
+    suppress.current = true;
+    setData(next);
+    setTimeout(() => (suppress.current = false), 0);
+
+    if (legacyRef.current) {
+      // régi forma: teljes dokumentum csere; a v2-re váltás csak a MigrationCard-on (ellenőrzéssel) történik
+      if (tRef.current) window.clearTimeout(tRef.current);
+      const legacy: LeagueDoc = { ...next };
+      delete legacy.schemaVersion;
+      delete legacy.interruptedWrite;
+      try {
+        await track(setDoc(leagueRef(leagueId), stripUndefinedDeep({ ...legacy, updatedAt: serverTimestamp() })));
+      } catch (err) {
+        console.error(err);
+        setSyncError((err as Error).message);
+      }
+      return;
+    }
+
+    const ops = fullWriteOps(leagueId, next, {
+      players: prev.players.map((p) => p.id),
+      matches: prev.matches.map((m) => m.id),
+      sessions: Object.keys(prev.sessions ?? {}),
+    });
+    ops.push({
+      ref: leagueRef(leagueId),
+      data: stripUndefinedDeep({
+        title: next.title,
+        seasons: Array.isArray(next.seasons) ? next.seasons : [],
+        backupRetention: next.backupRetention,
+        settings: next.settings,
+        badges: next.badges,
+        schemaVersion: SCHEMA_VERSION,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      }),
+    });
+
+    try {
+      await track(commitOps(ops, { leagueId, label }));
+    } catch (err) {
+      console.error(err);
+      setSyncError((err as Error).message);
+    }
+  }, [leagueId, setData, track]);
+
+  // hibánál/ütközésnél a szerver állapota marad, az üzenet az issue-ba kerül
+  const report = useCallback((err: unknown) => {
+    console.error(err);
+    if (err instanceof ConflictError) setIssue(err.message);
+    else setSyncError((err as Error)?.message ?? String(err));
+  }, []);
+
+  const logCommitted = useCallback((audit?: AuditEntry) => {
+    if (audit) void appendAuditEntry(leagueId, audit).catch((err) => console.error("Audit log write failed:", err));
+  }, [leagueId]);
+
+  // a sorban álló műveletek felküldése, egyesével és sorrendben
+  const flush = useCallback(async () => {
+    if (flushingRef.current || legacyRef.current || !pendingRef.current.length) return;
+    flushingRef.current = true;
+    try {
+      // a felküldés alatt a commit() a sor végére fűzhet – ezek is sorra kerülnek
+      await drainQueue(
+        { get: () => pendingRef.current, set: setPending },
+        async (op) => {
+          await track(runPendingOp(leagueId, op, dataRef.current.players));
+          logCommitted(op.audit);
+        },
+        (err) => {
+          if (isNetworkError(err)) return "stop";
+          report(err);
+          return "drop";
+        }
+      );
+    } finally {
+      flushingRef.current = false;
+      resyncRef.current();
+    }
+  }, [leagueId, report, setPending, track, logCommitted]);
+
+  useEffect(() => {
+    if (online && status === "ready") void flush();
+  }, [online, status, flush]);
+
+  // optimista helyi módosítás + tranzakciós írás; offline sorba állítjuk
+  const commit = useCallback(async (patch: Partial<LeagueDoc>, input: PendingInput): Promise<CommitResult> => {
+    if (legacyRef.current) {
+      // régi forma: teljes dokumentum, de nem debounce-olva – a napló csak a sikeres mentés után
+      if (tRef.current) window.clearTimeout(tRef.current);
+      const next = { ...dataRef.current, ...patch };
+      setData(next);
+      const saved = track(setDoc(
+        leagueRef(leagueId),
+        stripUndefinedDeep({ ...next, updatedAt: serverTimestamp() } as LeagueDoc),
+        { merge: true }
+      )).then(() => logCommitted(input.audit));
+      if (!navigator.onLine) {
+        // a Firestore saját sora küldi fel visszakapcsoláskor
+        saved.catch(report);
+        return "queued";
+      }
+      try {
+        await saved;
+        return "saved";
+      } catch (err) {
+        report(err);
+        return "failed";
+      }
+    }
+    setData({ ...dataRef.current, ...patch });
+    const op: PendingOp = { ...input, id: uid(), at: new Date().toISOString() };
+    if (!navigator.onLine || pendingRef.current.length) {
+      // a sorrend miatt, ha már van sor, az új művelet is a végére kerül
+      setPending([...pendingRef.current, op]);
+      if (navigator.onLine) void flush();
+      return "queued";
+    }
+    try {
+      await track(runPendingOp(leagueId, op, dataRef.current.players));
+      logCommitted(op.audit);
+      return "saved";
+    } catch (err) {
+      if (isNetworkError(err)) {
+        setPending([...pendingRef.current, op]);
+        return "queued";
+      }
+      resyncRef.current();
+      report(err);
+      return "failed";
+    }
+  }, [leagueId, setData, setPending, track, flush, report, logCommitted]);
+
+  const syncState: SyncState = syncError ? "error" : !online ? "offline" : queued + inFlight > 0 ? "pending" : "synced";
+  const sync = {
+    state: syncState,
+    pending: queued + inFlight,
+    error: syncError,
+    issue,
+    dismissIssue: () => setIssue(null),
+  };
+
+  return [data, write, replaceAll, status, commit, sync, updateSession] as const;
+}
+
+// ========================= Sidebar =========================
+type Identity = { email: string; isAdmin: boolean };
+
+function Sidebar({
+  role,
+  setRole,
+  identity,
+  onSignOut,
+}: {
+  role: "player" | "admin";
+  setRole: (r: "player" | "admin") => void;
+  identity: Identity;
+  onSignOut: () => void;
+}) {
+  const [imgError, setImgError] = useState(false);
+
+  return (
+    <div className="fixed left-0 top-0 h-full w-64 bg-[#1e293b] text-white flex flex-col shadow-2xl z-50 transition-transform duration-300 md:translate-x-0 -translate-x-full md:block hidden overflow-hidden">
+      {/* 🟢 DEKORÁCIÓ: Háttér "Blobs" (Deep Atmosphere) */}
+      <div className="absolute -top-20 -left-20 w-60 h-60 bg-[#84cc16] rounded-full blur-[80px] opacity-10 pointer-events-none"></div>
+      <div className="absolute bottom-0 right-0 w-60 h-60 bg-teal-500 rounded-full blur-[80px] opacity-10 pointer-events-none"></div>
+
+      {/* 🟢 LOGO: Glassmorphism Design */}
+      <div className="p-6 flex flex-col items-center border-b border-white/5 relative z-10">
+        <div className="relative w-40 h-40 mb-6 flex items-center justify-center">
+            {/* Háttérfény (Glow) */}
+            <div className="absolute inset-0 bg-[#84cc16] rounded-full blur-2xl opacity-20"></div>
+            
+            {/* Üveg Konténer */}
+            <div className="relative w-full h-full bg-white/5 backdrop-blur-md border border-white/10 rounded-full flex items-center justify-center shadow-2xl overflow-hidden p-1">
+                {!imgError ? (
+                    <img src="/logo.png" alt="Logo" className="w-full h-full object-cover rounded-full" onError={() => setImgError(true)} />
+                ) : (
+                    <span className="text-4xl">🏸</span>
+                )}
+            </div>
+        </div>
+        <h1 className="text-xl font-black tracking-wider uppercase text-white drop-shadow-md">Biatorbágy</h1>
+        <p className="text-xs text-[#84cc16] font-bold uppercase tracking-[0.2em] mt-1">Badminton</p>
+      </div>
 
       {/* Nav */}
       <nav className="flex-1 px-4 py-6 space-y-2 relative z-10">
@@ -441,21 +1748,24 @@ function Sidebar({
         </button>
       </nav>
 
-      {/* Guest */}
+      {/* Bejelentkezett felhasználó / vendég */}
       <div className="p-4 border-t border-white/5 relative z-10">
         <div className="flex items-center gap-3 px-2">
-            <div className="w-10 h-10 rounded-full bg-slate-700 flex items-center justify-center text-xl border border-white/10">👤</div>
-            <div>
-                <p className="text-sm font-semibold text-white">Guest User</p>
-                <p className="text-xs text-slate-400">View only mode</p>
+            <div className="w-10 h-10 rounded-full bg-slate-700 flex items-center justify-center text-xl border border-white/10">{identity.isAdmin ? "🛡️" : "👤"}</div>
+            <div className="min-w-0 flex-1">
+                <p className="text-sm font-semibold text-white truncate">{identity.email || "Guest User"}</p>
+                <p className="text-xs text-slate-400">{identity.isAdmin ? "Admin" : identity.email ? "No admin access" : "View only mode"}</p>
             </div>
+            {identity.email && (
+              <button onClick={onSignOut} title="Sign out" className="text-xs text-slate-400 hover:text-white transition">⎋</button>
+            )}
         </div>
       </div>
     </div>
   );
 }
 
-function MobileHeader({ role, setRole }: { role: "player" | "admin"; setRole: (r: "player" | "admin") => void }) {
+function MobileHeader({ role, setRole, identity, onSignOut }: { role: "player" | "admin"; setRole: (r: "player" | "admin") => void; identity: Identity; onSignOut: () => void }) {
     return (
         <div className="md:hidden bg-[#1e293b] text-white p-4 flex justify-between items-center shadow-md mb-4 rounded-b-xl z-50 relative overflow-hidden">
              {/* Mobile Decor */}
@@ -517,6 +1827,16 @@ function MobileHeader({ role, setRole }: { role: "player" | "admin"; setRole: (r
       Admin
     </button>
   </div>
+
+  {identity.email && (
+    <button
+      onClick={onSignOut}
+      title={`Sign out ${identity.email}`}
+      className="inline-flex items-center justify-center w-9 h-9 rounded-lg bg-slate-800/50 border border-white/5 text-slate-300 hover:bg-white/10 transition"
+    >
+      ⎋
+    </button>
+  )}
 </div>
 
         </div>
@@ -548,7 +1868,7 @@ function DatePicker({ value, onChange }: { value: string; onChange: (val: string
 function AttendanceList({ players, presentIds, setPresentIds }: any) {
   const isPresent = (id: string) => presentIds.includes(id);
   const toggle = (id: string) => setPresentIds(isPresent(id) ? presentIds.filter((p:string) => p !== id) : [...presentIds, id]);
-  const sorted = useMemo(() => [...players].sort((a:any,b:any) => a.name.localeCompare(b.name, "hu")), [players]);
+  const sorted = useMemo(() => [...players].sort(byRealName), [players]);
   return (
     <div className={cardContainer}>
       <BrandStripe />
@@ -573,18 +1893,131 @@ function AttendanceList({ players, presentIds, setPresentIds }: any) {
   );
 }
 
-function AdminDateJump({ grouped, date, setDate }: any) {
+const RSVP_OPTIONS: { status: RsvpStatus; label: string; active: string }[] = [
+  { status: "yes", label: "I'm coming", active: "bg-[#84cc16] border-[#84cc16] text-white" },
+  { status: "maybe", label: "Maybe", active: "bg-amber-400 border-amber-400 text-white" },
+  { status: "no", label: "Not coming", active: "bg-slate-500 border-slate-500 text-white" },
+];
+
+function RsvpCard({ player, dates, rsvps, sessions, onRsvp }: {
+  player: Player | undefined;
+  dates: string[];
+  rsvps: Rsvp[];
+  sessions: Record<string, SessionInfo>;
+  onRsvp: (date: string, playerId: string, status: RsvpStatus) => void;
+}) {
+  if (!player) return null;
   return (
     <div className={cardContainer}>
-        <BrandStripe />
-        <div className={cardContent}>
-            <h3 className="font-bold text-slate-800 mb-3">Jump to Date</h3>
-            {grouped.length === 0 ? <p className="text-sm text-slate-400">No sessions yet.</p> : (
-                <ul className="space-y-2 max-h-40 overflow-y-auto pr-1">
-                    {grouped.map((g:any) => (
-                        <li key={g.date}>
-                            <button 
-                                onClick={() => setDate(g.date)} 
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Upcoming Sessions</h3>
+        <p className="text-xs text-slate-500 mb-4">Responding as <b>{player.name}</b></p>
+        <div className="space-y-4">
+          {dates.map((d) => {
+            const forDate = rsvps.filter((r) => r.date === d);
+            const capacity = sessions[d]?.capacity;
+            const summary = rsvpSummary(forDate, capacity);
+            const mine = forDate.find((r) => r.playerId === player.id)?.status;
+            const waitPos = summary.waitlist.indexOf(player.id);
+            return (
+              <div key={d}>
+                <div className="flex justify-between items-baseline mb-2">
+                  <span className="text-sm font-bold text-slate-700">{weekday(d)} <span className="text-slate-400 font-medium">{d}</span></span>
+                  <span className="text-[11px] text-slate-400">
+                    {summary.confirmed.length}{capacity ? `/${capacity}` : ""} coming
+                    {summary.waitlist.length > 0 && ` • ${summary.waitlist.length} waiting`}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {RSVP_OPTIONS.map((o) => (
+                    <button
+                      key={o.status}
+                      onClick={() => onRsvp(d, player.id, o.status)}
+                      className={`flex-1 py-1.5 text-xs rounded-lg font-bold border transition ${mine === o.status ? o.active : "bg-white border-slate-200 text-slate-500 hover:bg-slate-50"}`}
+                    >
+                      {o.label}
+                    </button>
+                  ))}
+                </div>
+                {waitPos >= 0 && (
+                  <p className="mt-1 text-[11px] text-amber-600 font-semibold">Full – you are #{waitPos + 1} on the waitlist.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RsvpAdminCard({ date, rsvps, capacity, nameOf, presentIds, onCapacityChange, onPrefill }: {
+  date: string;
+  rsvps: Rsvp[];
+  capacity?: number;
+  nameOf: (id: string) => string;
+  presentIds: string[];
+  onCapacityChange: (n: number | undefined) => void;
+  onPrefill: (ids: string[]) => void;
+}) {
+  const summary = rsvpSummary(rsvps.filter((r) => r.date === date), capacity);
+  const missing = summary.confirmed.filter((id) => !presentIds.includes(id));
+  const group = (label: string, ids: string[], tone: string) =>
+    ids.length > 0 && (
+      <div>
+        <div className={`text-[10px] uppercase font-bold mb-1 ${tone}`}>{label} ({ids.length})</div>
+        <div className="text-xs text-slate-600">{ids.map(nameOf).join(", ")}</div>
+      </div>
+    );
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold text-slate-800">RSVP ({summary.confirmed.length}{capacity ? `/${capacity}` : ""})</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] uppercase font-bold text-slate-400">Limit</span>
+            <input
+              className={`${input} w-16 py-1 text-sm text-center`}
+              inputMode="numeric"
+              placeholder="—"
+              value={capacity ?? ""}
+              onChange={(e) => {
+                const n = parseInt(e.target.value.replace(/[^0-9]/g, ""), 10);
+                onCapacityChange(Number.isFinite(n) && n > 0 ? n : undefined);
+              }}
+            />
+          </div>
+        </div>
+        <div className="space-y-2 mb-3">
+          {group("Coming", summary.confirmed, "text-[#65a30d]")}
+          {group("Waitlist", summary.waitlist, "text-amber-600")}
+          {group("Maybe", summary.maybe, "text-amber-500")}
+          {group("Not coming", summary.no, "text-slate-400")}
+          {!rsvps.some((r) => r.date === date) && <p className="text-sm text-slate-400">No responses for this date.</p>}
+        </div>
+        <button className={`${btnSecondary} w-full text-xs`} disabled={!missing.length} onClick={() => onPrefill(summary.confirmed)}>
+          Pre-fill attendance from RSVPs{missing.length ? ` (+${missing.length})` : ""}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function AdminDateJump({ grouped, date, setDate }: any) {
+  return (
+    <div className={cardContainer}>
+        <BrandStripe />
+        <div className={cardContent}>
+            <h3 className="font-bold text-slate-800 mb-3">Jump to Date</h3>
+            {grouped.length === 0 ? <p className="text-sm text-slate-400">No sessions yet.</p> : (
+                <ul className="space-y-2 max-h-40 overflow-y-auto pr-1">
+                    {grouped.map((g:any) => (
+                        <li key={g.date}>
+                            <button 
+                                onClick={() => setDate(g.date)} 
                                 className={`w-full text-left px-3 py-2 rounded-lg text-sm flex justify-between border transition-all ${
                                     date === g.date 
                                         ? "bg-[#f0fdf4] border-[#84cc16] text-[#65a30d] font-bold shadow-sm" 
@@ -592,7 +2025,10 @@ function AdminDateJump({ grouped, date, setDate }: any) {
                                 }`}
                             >
                                 <span>{g.date}</span>
-                                <span className="text-xs opacity-60">{weekday(g.date)}</span>
+                                <span className="text-xs opacity-60">
+                                    {g.present > 0 && <span className="mr-2">👥 {g.present}</span>}
+                                    {weekday(g.date)}
+                                </span>
                             </button>
                         </li>
                     ))}
@@ -603,187 +2039,1825 @@ function AdminDateJump({ grouped, date, setDate }: any) {
   )
 }
 
+function LeaguePicker({ leagues, value, onChange }: { leagues: LeagueSummary[]; value: string; onChange: (id: string) => void }) {
+  if (leagues.length < 2) return null;
+  return (
+    <select
+      className="py-2 px-3 bg-white rounded-full border border-slate-200 text-sm font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-[#84cc16] shadow-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {leagues.map((l) => (
+        <option key={l.id} value={l.id}>{l.title || l.id}</option>
+      ))}
+    </select>
+  );
+}
+
+function LeaguesCard({ leagueId, title, leagues, onRename, onCreate, onSwitch }: {
+  leagueId: string;
+  title: string;
+  leagues: LeagueSummary[];
+  onRename: (title: string) => void;
+  onCreate: (id: string, title: string) => Promise<void>;
+  onSwitch: (id: string) => void;
+}) {
+  const [draftTitle, setDraftTitle] = useState(title);
+  const [newTitle, setNewTitle] = useState("");
+  const [newId, setNewId] = useState("");
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+  useEffect(() => setDraftTitle(title), [title]);
+
+  const id = newId || slugify(newTitle);
+  const create = async () => {
+    setStatus(null);
+    if (!newTitle.trim()) return setStatus({ kind: "err", msg: "Give the league a name." });
+    if (!LEAGUE_ID_RE.test(id)) return setStatus({ kind: "err", msg: "Id: lowercase letters, digits and dashes only." });
+    if (leagues.some((l) => l.id === id)) return setStatus({ kind: "err", msg: `A league with id “${id}” already exists.` });
+    try {
+      await onCreate(id, newTitle.trim());
+      setNewTitle("");
+      setNewId("");
+      onSwitch(id);
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Could not create the league." });
+    }
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Leagues</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Current: <b>{title || leagueId}</b> <span className="text-slate-400">({leagueId})</span>
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input className={input} placeholder="League title..." value={draftTitle} onChange={(e) => setDraftTitle(e.target.value)} />
+          <button className={btnSecondary} disabled={draftTitle.trim() === title} onClick={() => onRename(draftTitle.trim())}>Save</button>
+        </div>
+
+        <div className="border-t border-slate-100 pt-3 space-y-2">
+          <div className="text-xs font-bold text-slate-400 uppercase">New league</div>
+          <input className={input} placeholder="e.g. Junior Group" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} />
+          <input className={`${input} text-xs`} placeholder={`id: ${slugify(newTitle) || "junior-group"}`} value={newId} onChange={(e) => setNewId(e.target.value.toLowerCase())} />
+          <button className={`${btnPrimary} w-full`} disabled={!newTitle.trim()} onClick={() => void create()}>Create & Switch</button>
+          {status && (
+            <p className={`text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</p>
+          )}
+        </div>
+
+        {leagues.length > 1 && (
+          <ul className="mt-4 space-y-1">
+            {leagues.map((l) => (
+              <li key={l.id}>
+                <button
+                  onClick={() => onSwitch(l.id)}
+                  className={`w-full text-left px-3 py-1.5 rounded-lg text-xs flex justify-between border ${l.id === leagueId ? "bg-[#f0fdf4] border-[#84cc16] font-bold text-[#65a30d]" : "bg-white border-slate-100 text-slate-600 hover:bg-slate-50"}`}
+                >
+                  <span>{l.title || l.id}</span>
+                  <span className="opacity-60">?league={l.id}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ========================= Export Bundle =========================
+// Verziózott csomag. Régebbi csomagokat a BUNDLE_MIGRATIONS lánc hoz fel az aktuálisra,
+// utána a validateLeague minden eldobott / javított rekordot indokkal jelent.
+//   v0: a nyers liga-dokumentum (burkoló nélkül)
+//   v1: { version: 1, exportedAt, leagueId, league: { ..., backups } }
+//   v2: a pillanatképek a league mellé kerültek: { ..., league, backups }
+const BUNDLE_SCHEMA = "bia-tollas-league";
+const BUNDLE_VERSION = 2;
+
+// Ugyanezt a csomagot használja a migráció ellenőrzése is.
+function buildExportBundle(league: LeagueDoc, leagueId: string, backups: Backup[]) {
+  return stripUndefinedDeep({
+    schema: BUNDLE_SCHEMA,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    leagueId,
+    league: {
+      title: league.title ?? "",
+      players: league.players ?? [],
+      matches: league.matches ?? [],
+      sessions: league.sessions ?? {},
+      seasons: league.seasons ?? [],
+      ...(league.backupRetention ? { backupRetention: league.backupRetention } : {}),
+      ...(league.settings ? { settings: league.settings } : {}),
+      ...(league.badges ? { badges: league.badges } : {}),
+    },
+    backups,
+  });
+}
+
+// index = a forrásverzió; mindegyik egy verzióval feljebb visz
+// nyers, még ellenőrizetlen JSON-objektum (fájlból)
+type RawRecord = Record<string, unknown>;
+const isRecord = (v: unknown): v is RawRecord => isPlainObject(v);
+const asRecord = (v: unknown): RawRecord => (isRecord(v) ? v : {});
+const isPositiveInt = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+const BUNDLE_MIGRATIONS: ((b: RawRecord) => RawRecord)[] = [
+  (raw) => ({ version: 1, exportedAt: raw.updatedAt ?? null, league: raw }),
+  ({ league, ...rest }) => {
+    const { backups, ...inner } = asRecord(league);
+    return { ...rest, schema: BUNDLE_SCHEMA, version: 2, league: inner, backups: backups ?? [] };
+  },
+];
+
+export type ValidationIssue = {
+  action: "dropped" | "repaired";
+  record: "bundle" | "player" | "match" | "backup" | "session" | "season" | "settings" | "badge";
+  id?: string;
+  reason: string;
+};
+
+function migrateBundle(raw: unknown): { bundle: RawRecord; fromVersion: number } {
+  if (!isRecord(raw)) throw new Error("Not a JSON object.");
+  const wrapped = raw.league && (raw.version || raw.exportedAt);
+  const fromVersion = wrapped ? Number(raw.version ?? 1) : 0;
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) throw new Error(`Unknown bundle version “${raw.version}”.`);
+  if (fromVersion > BUNDLE_VERSION) {
+    throw new Error(`This file was exported by a newer version (v${fromVersion}); this app reads up to v${BUNDLE_VERSION}.`);
+  }
+  if (wrapped && raw.schema !== undefined && raw.schema !== BUNDLE_SCHEMA) throw new Error(`Unknown schema “${raw.schema}”.`);
+  const bundle = BUNDLE_MIGRATIONS.slice(fromVersion).reduce<RawRecord>((b, step) => step(b), raw);
+  return { bundle, fromVersion };
+}
+
+const isDateStr = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+/**
+ * Csomag beolvasása: migráció + ellenőrzés. Semmit nem dob el csendben –
+ * minden kihagyott vagy javított rekord bekerül az issues listába.
+ */
+function validateBundle(raw: unknown): { league: LeagueDoc; issues: ValidationIssue[]; fromVersion: number } {
+  const { bundle, fromVersion } = migrateBundle(raw);
+  const src = asRecord(bundle.league);
+  const issues: ValidationIssue[] = [];
+  const drop = (record: ValidationIssue["record"], id: string | undefined, reason: string) =>
+    issues.push({ action: "dropped", record, id, reason });
+  const repair = (record: ValidationIssue["record"], id: string | undefined, reason: string) =>
+    issues.push({ action: "repaired", record, id, reason });
+
+  if (!Array.isArray(src.players) || !Array.isArray(src.matches)) {
+    throw new Error("Invalid backup format (need players + matches).");
+  }
+
+  const players: Player[] = [];
+  const playerIds = new Set<string>();
+  src.players.forEach((item: unknown, i: number) => {
+    const p = asRecord(item);
+    const id = typeof p.id === "string" && p.id ? p.id : undefined;
+    if (!id) return drop("player", `#${i + 1}`, "missing or non-string id");
+    const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+    if (!str(p.name) && !str(p.displayName)) return drop("player", id, "missing name");
+    if (playerIds.has(id)) return drop("player", id, "duplicate id");
+    if (p.gender !== undefined && p.gender !== "M" && p.gender !== "F") repair("player", id, `invalid gender “${p.gender}” removed`);
+    playerIds.add(id);
+    if (p.status !== undefined && p.status !== "active" && p.status !== "archived" && p.status !== "merged") repair("player", id, `invalid status “${p.status}” removed`);
+    // profil-mezők: a régi (csak "name") mentésekből is összeáll a profil
+    const profile: PlayerProfile = str(p.displayName)
+      ? { displayName: str(p.displayName), emoji: str(p.emoji), nickname: str(p.nickname), color: str(p.color) }
+      : { ...splitLegacyName(str(p.name) ?? ""), nickname: str(p.nickname), color: str(p.color) };
+    players.push(withProfile({
+      id,
+      name: str(p.name) ?? "",
+      ...(p.gender === "M" || p.gender === "F" ? { gender: p.gender } : {}),
+      ...(p.status === "archived" || p.status === "merged" ? { status: p.status } : {}),
+      ...(typeof p.mergedInto === "string" ? { mergedInto: p.mergedInto } : {}),
+      ...(p.bounty === true ? { bounty: true } : {}),
+    }, profile));
+  });
+
+  // beolvasztás: a cél létező, nem beolvasztott játékos legyen (láncnál a végére mutatunk, körnél megszakítjuk)
+  players.forEach((p, i) => {
+    const next: Player = { ...p };
+    delete next.mergedInto;
+    if (p.status !== "merged") {
+      if (p.mergedInto === undefined) return;
+      players[i] = next;
+      return repair("player", p.id, "merge target removed (player is not merged)");
+    }
+    const target = p.mergedInto ? resolveMerged(players, p.mergedInto) : undefined;
+    if (!target || target.id === p.id || target.status === "merged") {
+      players[i] = { ...next, status: "archived" };
+      return repair("player", p.id, "merge target missing or circular, kept as archived");
+    }
+    if (target.id !== p.mergedInto) {
+      players[i] = { ...p, mergedInto: target.id };
+      repair("player", p.id, `merge target ${p.mergedInto} was merged too, now points to ${target.id}`);
+    }
+  });
+
+  const matches: Match[] = [];
+  const matchIds = new Set<string>();
+  src.matches.forEach((item: unknown, i: number) => {
+    const m = asRecord(item);
+    const id = typeof m.id === "string" && m.id ? m.id : undefined;
+    if (!id) return drop("match", `#${i + 1}`, "missing or non-string id");
+    if (matchIds.has(id)) return drop("match", id, "duplicate id");
+    if (!isDateStr(m.date)) return drop("match", id, `invalid date “${m.date}”`);
+    if (!Array.isArray(m.teamA) || !Array.isArray(m.teamB)) return drop("match", id, "teams are not arrays");
+    const teamA = [String(m.teamA[0] ?? ""), String(m.teamA[1] ?? "")] as Pair;
+    const teamB = [String(m.teamB[0] ?? ""), String(m.teamB[1] ?? "")] as Pair;
+    if (!teamA[0] || !teamB[0]) return drop("match", id, "empty team");
+    const everyone = [...teamA, ...teamB].filter(Boolean);
+    const dangling = everyone.filter((pid) => !playerIds.has(pid));
+    if (dangling.length) return drop("match", id, `unknown player id(s): ${dangling.join(", ")}`);
+    if (new Set(everyone).size < everyone.length) return drop("match", id, "a player appears twice (both teams or same pair)");
+
+    // régi (csak winner) mentések is jók; ha van érvényes eredmény, abból jön a győztes
+    let scores: GameScore[] = Array.isArray(m.scores)
+      ? m.scores
+          .filter((g: unknown) => isRecord(g) && Number.isFinite(Number(g.a)) && Number.isFinite(Number(g.b)))
+          .map((g: RawRecord) => ({ a: Number(g.a), b: Number(g.b) }))
+      : [];
+    const fromScores = matchWinnerFromScores(scores);
+    if (m.scores !== undefined && !fromScores) {
+      repair("match", id, "invalid scores removed");
+      scores = [];
+    }
+    let winner = fromScores ?? (m.winner === "A" || m.winner === "B" ? m.winner : undefined);
+    if (fromScores && m.winner !== undefined && m.winner !== fromScores) repair("match", id, "winner corrected from scores");
+    if (!fromScores && m.winner !== undefined && !winner) {
+      repair("match", id, `invalid winner “${m.winner}” removed`);
+      winner = undefined;
+    }
+    if (m.court !== undefined && !isPositiveInt(m.court)) repair("match", id, "invalid court removed");
+
+    matchIds.add(id);
+    matches.push({
+      id,
+      date: m.date,
+      teamA,
+      teamB,
+      ...(winner ? { winner } : {}),
+      ...(fromScores ? { scores } : {}),
+      ...(isPositiveInt(m.court) ? { court: m.court } : {}),
+      ...(typeof m.startedAt === "string" ? { startedAt: m.startedAt } : {}),
+      ...(typeof m.finishedAt === "string" ? { finishedAt: m.finishedAt } : {}),
+    });
+  });
+
+  const backups: Backup[] = [];
+  const backupIds = new Set<string>();
+  (Array.isArray(bundle.backups) ? bundle.backups : []).forEach((item: unknown, i: number) => {
+    const b = asRecord(item);
+    const data = b.data;
+    const id = typeof b.id === "string" && b.id ? b.id : undefined;
+    if (!id) return drop("backup", `#${i + 1}`, "missing id");
+    if (!isRecord(data)) return drop("backup", id, "missing data");
+    if (backupIds.has(id)) return drop("backup", id, "duplicate id");
+    if (typeof b.createdAt !== "string") repair("backup", id, "missing date set to now");
+    backupIds.add(id);
+    backups.push({
+      id,
+      createdAt: typeof b.createdAt === "string" ? b.createdAt : new Date().toISOString(),
+      ...(typeof b.note === "string" ? { note: b.note } : {}),
+      // a mentés tartalma visszaállításkor, a BackupsCard-on át kerül vissza
+      data: {
+        players: Array.isArray(data.players) ? data.players : [],
+        matches: Array.isArray(data.matches) ? data.matches : [],
+        ...(isRecord(data.sessions) ? { sessions: data.sessions as Record<string, SessionInfo> } : {}),
+        ...(Array.isArray(data.seasons) ? { seasons: data.seasons } : {}),
+        ...(typeof data.title === "string" ? { title: data.title } : {}),
+        ...(isRecord(data.settings) ? { settings: leagueSettings({ settings: data.settings as LeagueSettings }) } : {}),
+        ...(Array.isArray(data.badges) ? { badges: data.badges.map(parseBadge).filter((x): x is BadgeDef => !!x) } : {}),
+      },
+    });
+  });
+
+  const sessions: Record<string, SessionInfo> = {};
+  if (isRecord(src.sessions)) {
+    Object.entries(src.sessions).forEach(([d, info]) => {
+      if (!isDateStr(d)) return drop("session", d, "key is not a date");
+      if (!isRecord(info)) return drop("session", d, "not an object");
+      if (info.courts !== undefined && !isPositiveInt(info.courts)) repair("session", d, "invalid court count removed");
+      let present: string[] | undefined;
+      if (Array.isArray(info.present)) {
+        const ids = info.present.filter((pid: unknown): pid is string => typeof pid === "string" && !!pid);
+        present = Array.from(new Set(ids)).filter((pid) => playerIds.has(pid));
+        if (present.length < info.present.length) repair("session", d, "duplicate or unknown attendees removed");
+      }
+      sessions[d] = {
+        ...(isPositiveInt(info.courts) ? { courts: info.courts } : {}),
+        ...(present ? { present } : {}),
+        ...(isPositiveInt(info.capacity) ? { capacity: info.capacity } : {}),
+      };
+    });
+  }
+
+  const seasons: Season[] = [];
+  (Array.isArray(src.seasons) ? src.seasons : []).forEach((item: unknown, i: number) => {
+    const x = asRecord(item);
+    const id = typeof x.id === "string" && x.id ? x.id : `#${i + 1}`;
+    if (typeof x.id !== "string" || typeof x.name !== "string") return drop("season", id, "missing id or name");
+    if (!isDateStr(x.startDate) || !isDateStr(x.endDate)) return drop("season", id, "invalid start or end date");
+    seasons.push({
+      id: x.id,
+      name: x.name,
+      startDate: x.startDate,
+      endDate: x.endDate,
+      ...(typeof x.closedAt === "string" ? { closedAt: x.closedAt } : {}),
+      ...(Array.isArray(x.finalStandings) ? { finalStandings: x.finalStandings } : {}),
+    });
+  });
+
+  // pontozás: a hibás mező az alapértékre áll vissza
+  let settings: LeagueSettings | undefined;
+  if (src.settings !== undefined) {
+    const rawSettings = asRecord(src.settings);
+    const next = { ...DEFAULT_SETTINGS };
+    (["winPoints", "lossPoints", "gamePoints", "minMatches", "bountyBonus"] as const).forEach((k) => {
+      const v = rawSettings[k];
+      const ok = typeof v === "number" && Number.isFinite(v) && (k !== "minMatches" || (Number.isInteger(v) && v >= 0));
+      if (ok) next[k] = v;
+      else if (v !== undefined) repair("settings", k, `invalid value “${v}” reset to ${DEFAULT_SETTINGS[k]}`);
+    });
+    const tb = rawSettings.tieBreakers;
+    if (Array.isArray(tb)) {
+      next.tieBreakers = Array.from(new Set(tb.filter((t: unknown): t is TieBreaker => typeof t === "string" && t in TIE_BREAKERS)));
+      if (next.tieBreakers.length < tb.length) repair("settings", "tieBreakers", "unknown or repeated tie-breakers removed");
+    } else if (tb !== undefined) repair("settings", "tieBreakers", "not a list, reset to default");
+    settings = next;
+  }
+  let badges: BadgeDef[] | undefined;
+  if (Array.isArray(src.badges)) {
+    badges = [];
+    src.badges.forEach((x: unknown, i: number) => {
+      const rawId = asRecord(x).id;
+      const id = typeof rawId === "string" && rawId ? rawId : `#${i + 1}`;
+      const badge = parseBadge(x);
+      if (!badge) return drop("badge", id, "invalid title or condition");
+      if (badges!.some((b) => b.id === badge.id)) return drop("badge", id, "duplicate id");
+      badges!.push(badge);
+    });
+  }
+
+  const league: LeagueDoc = {
+    ...(typeof src.title === "string" ? { title: src.title } : {}),
+    ...(isPositiveInt(src.backupRetention) ? { backupRetention: src.backupRetention } : {}),
+    ...(settings ? { settings } : {}),
+    ...(badges ? { badges } : {}),
+    players,
+    matches,
+    backups,
+    sessions,
+    seasons,
+  };
+  return { league, issues, fromVersion };
+}
+
+const exportFilename = (leagueId: string, suffix = "backup", ext = "json") =>
+  `${leagueId === DEFAULT_LEAGUE_ID ? "bia-tollas" : `bia-tollas-${leagueId}`}-${suffix}-${fmt(new Date())}.${ext}`;
+
+function download(filename: string, content: string, type = "application/json") {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ========================= CSV =========================
+// Táblázatkezelőknek (Excel: BOM + pontosvessző is lehet az elválasztó)
+const CSV_TYPE = "text/csv;charset=utf-8";
+
+function toCsv(rows: (string | number)[][]) {
+  const cell = (v: string | number) => {
+    const str = String(v);
+    return /[",;\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  return "\uFEFF" + rows.map((r) => r.map(cell).join(",")).join("\r\n");
+}
+
+function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const firstLine = src.split(/\r?\n/, 1)[0] ?? "";
+  const sep = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === sep) {
+      row.push(cur);
+      cur = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cur);
+      rows.push(row);
+      row = [];
+      cur = "";
+    } else cur += ch;
+  }
+  if (cur || row.length) rows.push([...row, cur]);
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+const matchType = (m: Match) => (isSinglesMatch(m) ? "1v1" : "2v2");
+
+function playersCsv(players: Player[]) {
+  return toCsv([
+    ["id", "name", "display name", "emoji", "nickname", "gender"],
+    ...players.map((p) => [p.id, p.name, realName(p), p.emoji ?? splitLegacyName(p.name).emoji ?? "", p.nickname ?? "", p.gender ?? ""]),
+  ]);
+}
+
+function matchesCsv(matches: Match[], nameOf: (id: string) => string) {
+  return toCsv([
+    ["date", "type", "team A", "team B", "winner", "score"],
+    ...matches.map((m) => [
+      m.date,
+      matchType(m),
+      formatTeam(m.teamA, nameOf),
+      formatTeam(m.teamB, nameOf),
+      m.winner ? formatTeam(m.winner === "A" ? m.teamA : m.teamB, nameOf) : "",
+      formatScores(m.scores),
+    ]),
+  ]);
+}
+
+function standingsCsv(rows: StandingRow[]) {
+  return toCsv([
+    ["rank", "name", "points", "matches", "wins", "win rate %", "games won", "games lost", "point diff", "rating", "qualified"],
+    ...rows.map((r) => [
+      r.qualified ? r.rank : `Q${r.rank}`,
+      r.name,
+      r.totalPoints,
+      r.matches,
+      r.wins,
+      Math.round(r.winRate),
+      r.gamesWon,
+      r.gamesLost,
+      r.pointDiff,
+      Math.round(r.rating),
+      r.qualified ? "yes" : "no",
+    ]),
+  ]);
+}
+
+// név → játékos: teljes név, az emoji nélküli valódi név, végül a becenév egyezése
+const normName = (n: string) => n.trim().toLowerCase();
+function resolvePlayerName(name: string, players: Player[]): Player | undefined {
+  const n = normName(name);
+  const base = normName(getBaseName(name));
+  return (
+    players.find((p) => normName(p.name) === n) ??
+    players.find((p) => normName(realName(p)) === n) ??
+    players.find((p) => normName(realName(p)) === base) ??
+    players.find((p) => !!p.nickname && normName(p.nickname) === base)
+  );
+}
+
+// "2024-03-04", "2024.03.04.", "2024/3/4"
+function parseCsvDate(v: string): string | null {
+  const m = v.trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})\.?$/);
+  if (!m) return null;
+  const d = `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+  const date = new Date(d + "T12:00:00");
+  return !isNaN(date.getTime()) && fmt(date) === d ? d : null;
+}
+
+// "21-15, 18-21, 21-19"
+function parseCsvScores(v: string): GameScore[] | null {
+  if (!v.trim()) return null;
+  const games = v.split(/[,;]/).map((g) => g.trim().match(/^(\d+)\s*[-:]\s*(\d+)$/));
+  if (games.some((g) => !g)) return null;
+  const scores = games.map((g) => ({ a: Number(g![1]), b: Number(g![2]) }));
+  return validateScores(scores) ? null : scores;
+}
+
+const splitTeam = (cell: string) => cell.split(/\s*(?:&|\+|\/)\s*/).map((n) => n.trim()).filter(Boolean);
+
+type CsvMatchRow = { line: number; date: string; teamA: string[]; teamB: string[]; winner?: "A" | "B"; scores?: GameScore[] };
+
+// fejléc: date, team A, team B, winner, (score) – a sorrend a fejléc alapján
+function parseMatchesCsv(text: string): { rows: CsvMatchRow[]; errors: string[] } {
+  const [header, ...body] = parseCsv(text);
+  if (!header) return { rows: [], errors: ["The file is empty."] };
+  const col = (...names: string[]) => header.findIndex((h) => names.includes(normName(h)));
+  const iDate = col("date", "dátum");
+  const iA = col("team a", "teama", "a");
+  const iB = col("team b", "teamb", "b");
+  const iWinner = col("winner", "győztes");
+  const iScore = col("score", "scores", "eredmény");
+  if (iDate < 0 || iA < 0 || iB < 0) return { rows: [], errors: ["Missing column: need date, team A and team B."] };
+
+  const rows: CsvMatchRow[] = [];
+  const errors: string[] = [];
+  body.forEach((r, idx) => {
+    const line = idx + 2;
+    const date = parseCsvDate(r[iDate] ?? "");
+    const teamA = splitTeam(r[iA] ?? "");
+    const teamB = splitTeam(r[iB] ?? "");
+    if (!date) return errors.push(`Line ${line}: invalid date “${r[iDate] ?? ""}”.`);
+    if (!teamA.length || !teamB.length || teamA.length > 2 || teamB.length > 2 || teamA.length !== teamB.length) {
+      return errors.push(`Line ${line}: teams must be 1v1 or 2v2.`);
+    }
+    const scores = iScore >= 0 ? parseCsvScores(r[iScore] ?? "") : null;
+    if (iScore >= 0 && (r[iScore] ?? "").trim() && !scores) errors.push(`Line ${line}: score “${r[iScore]}” ignored (not a valid result).`);
+    const w = normName(r[iWinner] ?? "");
+    const winner =
+      matchWinnerFromScores(scores ?? undefined) ??
+      (w === "a" || w === "1" || (w && w === normName(r[iA] ?? "")) ? "A" : w === "b" || w === "2" || (w && w === normName(r[iB] ?? "")) ? "B" : undefined);
+    if (w && !winner) errors.push(`Line ${line}: winner “${r[iWinner]}” not recognised, imported without a result.`);
+    rows.push({ line, date, teamA, teamB, ...(winner ? { winner } : {}), ...(scores ? { scores } : {}) });
+  });
+  return { rows, errors };
+}
+
+// ========================= Import Merge =========================
+// Összefésülés id alapján; a valószínű duplikátumokat (azonos név / azonos nap + csapatok)
+// és az eltérő tartalmú rekordokat az admin egyenként dönti el.
+type MergeConflict =
+  | { key: string; type: "player"; reason: "changed" | "duplicate"; current: Player; incoming: Player }
+  | { key: string; type: "match"; reason: "changed" | "duplicate"; current: Match; incoming: Match }
+  | { key: string; type: "session"; reason: "changed"; date: string; current: SessionInfo; incoming: SessionInfo };
+// keep = a mostani marad (duplikátumnál: ugyanaz a rekord), incoming = a fájlbeli kerül be
+type MergeChoice = "keep" | "incoming";
+type MergePlan = {
+  newPlayers: Player[];
+  newMatches: Match[];
+  unchanged: number;
+  conflicts: MergeConflict[];
+  newSessions: string[];
+  newSeasons: Season[];
+};
+
+const playerKey = (p: Player) => normName(realName(p));
+const teamsKey = (m: Match, mapId: (id: string) => string = (id) => id) =>
+  [key(mapId(m.teamA[0]), mapId(m.teamA[1])), key(mapId(m.teamB[0]), mapId(m.teamB[1]))].sort().join("|");
+
+function planMerge(current: LeagueDoc, incoming: LeagueDoc): MergePlan {
+  const plan: MergePlan = { newPlayers: [], newMatches: [], unchanged: 0, conflicts: [], newSessions: [], newSeasons: [] };
+  const curPlayers = byId(current.players);
+  const byName = new Map(current.players.map((p) => [playerKey(p), p]));
+  // duplikátum-keresésnél a névegyezést azonos játékosnak vesszük
+  const sameAs = new Map<string, string>();
+
+  incoming.players.forEach((p) => {
+    const cur = curPlayers[p.id];
+    if (cur) {
+      if (canonical(cur) === canonical(p)) plan.unchanged++;
+      else plan.conflicts.push({ key: `player:${p.id}`, type: "player", reason: "changed", current: cur, incoming: p });
+      return;
+    }
+    const dup = byName.get(playerKey(p));
+    if (dup) {
+      sameAs.set(p.id, dup.id);
+      plan.conflicts.push({ key: `player:${p.id}`, type: "player", reason: "duplicate", current: dup, incoming: p });
+    } else plan.newPlayers.push(p);
+  });
+
+  const curMatches = byId(current.matches);
+  const bySlot = new Map(current.matches.map((m) => [`${m.date}|${teamsKey(m)}`, m]));
+  incoming.matches.forEach((m) => {
+    const cur = curMatches[m.id];
+    if (cur) {
+      if (canonical(cur) === canonical(m)) plan.unchanged++;
+      else plan.conflicts.push({ key: `match:${m.id}`, type: "match", reason: "changed", current: cur, incoming: m });
+      return;
+    }
+    const dup = bySlot.get(`${m.date}|${teamsKey(m, (id) => sameAs.get(id) ?? id)}`);
+    if (dup) plan.conflicts.push({ key: `match:${m.id}`, type: "match", reason: "duplicate", current: dup, incoming: m });
+    else plan.newMatches.push(m);
+  });
+
+  // edzésnap: a jelenlétet a névegyezéssel összevont id-kkel hasonlítjuk
+  const sessionKey = (info: SessionInfo, mapId: (id: string) => string = (id) => id) =>
+    canonical({ ...info, present: info.present && Array.from(new Set(info.present.map(mapId))).sort() });
+  Object.keys(incoming.sessions ?? {}).sort().forEach((d) => {
+    const cur = current.sessions?.[d];
+    const inc = incoming.sessions![d];
+    if (!cur) plan.newSessions.push(d);
+    else if (sessionKey(cur) === sessionKey(inc, (id) => sameAs.get(id) ?? id)) plan.unchanged++;
+    else plan.conflicts.push({ key: `session:${d}`, type: "session", reason: "changed", date: d, current: cur, incoming: inc });
+  });
+  const seasonIds = new Set((current.seasons ?? []).map((x) => x.id));
+  plan.newSeasons = (incoming.seasons ?? []).filter((x) => !seasonIds.has(x.id));
+  return plan;
+}
+
+function applyMerge(current: LeagueDoc, incoming: LeagueDoc, plan: MergePlan, choices: Record<string, MergeChoice>): LeagueDoc {
+  const choice = (c: MergeConflict) => choices[c.key] ?? "keep";
+  // "ugyanaz a játékos" → a fájlbeli id-k a mostanira cserélődnek
+  const remap = new Map<string, string>();
+  plan.conflicts.forEach((c) => {
+    if (c.type === "player" && c.reason === "duplicate" && choice(c) === "keep") remap.set(c.incoming.id, c.current.id);
+  });
+  const mapId = (id: string) => remap.get(id) ?? id;
+  const mapSession = (info: SessionInfo): SessionInfo =>
+    info.present ? { ...info, present: Array.from(new Set(info.present.map(mapId))) } : info;
+  const mapMatch = (m: Match): Match => ({
+    ...m,
+    teamA: [mapId(m.teamA[0]), m.teamA[1] && mapId(m.teamA[1])] as Pair,
+    teamB: [mapId(m.teamB[0]), m.teamB[1] && mapId(m.teamB[1])] as Pair,
+  });
+
+  const replaced = new Map<string, Player | Match>();
+  const added: { players: Player[]; matches: Match[] } = { players: [...plan.newPlayers], matches: plan.newMatches.map(mapMatch) };
+  plan.conflicts.forEach((c) => {
+    if (choice(c) === "keep" || c.type === "session") return;
+    if (c.reason === "changed") replaced.set(c.key, c.type === "match" ? mapMatch(c.incoming) : c.incoming);
+    else if (c.type === "player") added.players.push(c.incoming);
+    else added.matches.push(mapMatch(c.incoming));
+  });
+
+  const sessions = { ...(current.sessions ?? {}) };
+  plan.newSessions.forEach((d) => {
+    sessions[d] = mapSession(incoming.sessions![d]);
+  });
+  plan.conflicts.forEach((c) => {
+    if (c.type === "session" && choice(c) === "incoming") sessions[c.date] = mapSession(c.incoming);
+  });
+
+  return {
+    ...current,
+    players: [...current.players.map((p) => (replaced.get(`player:${p.id}`) as Player) ?? p), ...added.players],
+    matches: [...current.matches.map((m) => (replaced.get(`match:${m.id}`) as Match) ?? m), ...added.matches],
+    sessions,
+    seasons: [...(current.seasons ?? []), ...plan.newSeasons],
+  };
+}
+
+const SYNC_LABELS: Record<SyncState, { label: string; cls: string }> = {
+  synced: { label: "Synced", cls: "bg-emerald-50 text-emerald-700 border-emerald-200" },
+  pending: { label: "Pending", cls: "bg-amber-50 text-amber-700 border-amber-200" },
+  offline: { label: "Offline", cls: "bg-slate-100 text-slate-600 border-slate-200" },
+  error: { label: "Sync error", cls: "bg-rose-50 text-rose-700 border-rose-200" },
+};
+
+function SyncBadge({ state, pending, error }: { state: SyncState; pending: number; error: string | null }) {
+  const { label, cls } = SYNC_LABELS[state];
+  return (
+    <span
+      className={`whitespace-nowrap text-xs font-semibold px-3 py-1.5 rounded-full border ${cls}`}
+      title={error ?? (pending ? `${pending} change(s) waiting to be saved` : "All changes saved")}
+    >
+      {state === "synced" ? "✓ " : state === "error" ? "⚠️ " : ""}
+      {label}
+      {pending > 0 && state !== "error" ? ` (${pending})` : ""}
+    </span>
+  );
+}
+
+function MigrationCard({
+  league,
+  leagueId,
+  onBeforeMigrate,
+}: {
+  league: LeagueDoc;
+  leagueId: string;
+  onBeforeMigrate: () => Promise<unknown>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+
+  const downloadLegacy = () =>
+    download(exportFilename(leagueId, "legacy"), JSON.stringify(buildExportBundle(league, leagueId, league.backups ?? []), null, 2));
+
+  const migrate = async () => {
+    if (!confirm("Move players, matches and sessions into separate documents? Download the legacy backup first.")) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      await onBeforeMigrate();
+      await migrateLegacyLeague(leagueId, league);
+      setStatus({ kind: "ok", msg: "Migration complete – data verified against the legacy document." });
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Migration failed." });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Storage upgrade</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          This league still keeps everything in one document ({league.players.length} players, {league.matches.length} matches).
+          Migrate it to per-item documents so it keeps working as the history grows.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button className={btnSecondary} onClick={downloadLegacy} disabled={busy}>
+            ⬇️ Download legacy backup
+          </button>
+          <button className={btnPrimary} onClick={migrate} disabled={busy}>
+            {busy ? "Migrating…" : "Migrate"}
+          </button>
+        </div>
+        {status && (
+          <p className={`mt-2 text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// a régi profilok / szabályok átalakítása csak kézzel indul (előtte pillanatkép, utána naplóbejegyzés)
+function ProfileUpgradeCard({ league, onUpgrade }: { league: LeagueDoc; onUpgrade: () => Promise<void> }) {
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+  const legacyNames = league.players.filter((p) => p.displayName === undefined);
+  const bounties = league.settings ? [] : league.players.filter(isLegacyBounty);
+
+  const upgrade = async () => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      await onUpgrade();
+      setStatus({ kind: "ok", msg: "Profiles upgraded – a snapshot was taken before." });
+    } catch (e) {
+      setStatus({ kind: "err", msg: (e as Error)?.message || "Upgrade failed." });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Profile upgrade</h3>
+        <ul className="text-xs text-slate-500 mb-3 list-disc pl-4 space-y-0.5">
+          {legacyNames.length > 0 && <li>{legacyNames.length} player name(s) will be split into emoji + display name.</li>}
+          {!league.settings && <li>The default scoring rules will be saved for this league.</li>}
+          {bounties.length > 0 && <li>Bounty will be set on: {bounties.map((p) => p.name).join(", ")}.</li>}
+        </ul>
+        <button className={btnPrimary} onClick={upgrade} disabled={busy}>
+          {busy ? "Upgrading…" : "Upgrade"}
+        </button>
+        {status && (
+          <p className={`mt-2 text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function ImportExportCard({
   league,
+  leagueId,
+  backups,
   onReplace,
+  onMerge,
 }: {
   league: LeagueDoc;
+  leagueId: string;
+  backups: Backup[];
   onReplace: (doc: LeagueDoc) => Promise<void> | void;
+  onMerge: (doc: LeagueDoc, summary: string) => Promise<void> | void;
 }) {
   const fileRef = useRef<HTMLInputElement | null>(null);
+  const modeRef = useRef<"replace" | "merge">("replace");
   const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+  // beolvasott, ellenőrzött fájl – írás csak jóváhagyás után
+  const [checked, setChecked] = useState<{
+    mode: "replace" | "merge";
+    fileName: string;
+    league: LeagueDoc;
+    issues: ValidationIssue[];
+    fromVersion: number;
+    plan?: MergePlan;
+  } | null>(null);
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  const buildExport = () => JSON.stringify(buildExportBundle(league, leagueId, backups), null, 2);
 
-  const download = (filename: string, content: string) => {
-    const blob = new Blob([content], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
-  };
-
-  const buildExport = () => {
-    const bundle = {
-      version: 1,
-      exportedAt: new Date().toISOString(),
-      league: {
-        title: league.title ?? "",
-        players: league.players ?? [],
-        matches: league.matches ?? [],
-        backups: league.backups ?? [],
-      },
+  const doExport = () => {
+    setStatus(null);
+    try {
+      download(exportFilename(leagueId), buildExport());
+      setStatus({ kind: "ok", msg: "Backup exported." });
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Export failed." });
+    }
+  };
+
+  const pick = (mode: "replace" | "merge") => {
+    modeRef.current = mode;
+    fileRef.current?.click();
+  };
+
+  const readFile = async (file: File) => {
+    setStatus(null);
+    setChecked(null);
+    try {
+      const mode = modeRef.current;
+      const { league: incoming, issues, fromVersion } = validateBundle(JSON.parse(await file.text()));
+      setChecked({
+        mode,
+        fileName: file.name,
+        league: incoming,
+        issues,
+        fromVersion,
+        ...(mode === "merge" ? { plan: planMerge(league, incoming) } : {}),
+      });
+      setChoices({});
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Import failed." });
+    }
+  };
+
+  const downloadReport = () => {
+    if (!checked) return;
+    const report = {
+      file: checked.fileName,
+      checkedAt: new Date().toISOString(),
+      fromVersion: checked.fromVersion,
+      toVersion: BUNDLE_VERSION,
+      kept: { players: checked.league.players.length, matches: checked.league.matches.length, backups: (checked.league.backups ?? []).length },
+      issues: checked.issues,
     };
-    return JSON.stringify(stripUndefinedDeep(bundle), null, 2);
+    download(exportFilename(leagueId, "import-report"), JSON.stringify(report, null, 2));
   };
 
-  const sanitizeLeague = (raw: any): LeagueDoc | null => {
-    const src = raw?.league && (raw.version || raw.exportedAt) ? raw.league : raw;
+  const doReplace = async () => {
+    if (!checked) return;
+    try {
+      await onReplace(checked.league);
+      setChecked(null);
+      setStatus({ kind: "ok", msg: "Backup imported (database replaced)." });
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Import failed." });
+    }
+  };
 
-    const players = Array.isArray(src?.players) ? src.players : null;
-    const matches = Array.isArray(src?.matches) ? src.matches : null;
-    if (!players || !matches) return null;
+  const applyMergePlan = async () => {
+    if (!checked?.plan) return;
+    const { league: incoming, plan } = checked;
+    const taken = plan.conflicts.filter((c) => choices[c.key] === "incoming").length;
+    const summary = `Merged import: +${plan.newPlayers.length} players, +${plan.newMatches.length} matches, ${taken}/${plan.conflicts.length} conflicts from file`;
+    try {
+      await onMerge(applyMerge(league, incoming, plan, choices), summary);
+      setChecked(null);
+      setStatus({ kind: "ok", msg: summary });
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Merge failed." });
+    }
+  };
 
-    const cleanPlayers: Player[] = players
-      .filter((p: any) => p && typeof p.id === "string" && typeof p.name === "string")
-.map((p: any) => ({
-  id: p.id,
-  name: p.name,
-  ...(p.gender === "M" || p.gender === "F" ? { gender: p.gender } : {}),
-}));
+  const previewNameOf = (id: string) =>
+    league.players.find((p) => p.id === id)?.name ?? checked?.league.players.find((p) => p.id === id)?.name ?? "Unknown";
+  const describe = (x: Player | Match) =>
+    "name" in x ? x.name : `${x.date}: ${formatTeam(x.teamA, previewNameOf)} vs ${formatTeam(x.teamB, previewNameOf)}${x.winner ? ` (${x.scores?.length ? formatScores(x.scores) : `winner ${x.winner}`})` : ""}`;
+  const describeSession = (date: string, x: SessionInfo) =>
+    `${date}: ${x.present?.length ?? 0} present, ${x.courts ?? 0} courts${x.capacity ? `, capacity ${x.capacity}` : ""}`;
+  const describeConflict = (c: MergeConflict, side: "current" | "incoming") =>
+    c.type === "session" ? describeSession(c.date, c[side]) : describe(c[side]);
 
+  const dropped = checked?.issues.filter((i) => i.action === "dropped").length ?? 0;
+  const repaired = (checked?.issues.length ?? 0) - dropped;
+  const plan = checked?.plan;
 
-    const cleanMatches: Match[] = matches
-      .filter(
-        (m: any) =>
-          m &&
-          typeof m.id === "string" &&
-          typeof m.date === "string" &&
-          Array.isArray(m.teamA) &&
-          Array.isArray(m.teamB)
-      )
-      .map((m: any) => ({
-        id: m.id,
-        date: m.date,
-        teamA: [String(m.teamA[0] ?? ""), String(m.teamA[1] ?? "")] as Pair,
-        teamB: [String(m.teamB[0] ?? ""), String(m.teamB[1] ?? "")] as Pair,
-      ...(m.winner === "A" || m.winner === "B" ? { winner: m.winner } : {}),
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Import / Export</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          Export a full JSON backup (players, matches, attendance, seasons), or import one to fully restore the database.
+        </p>
 
-      }));
+        <div className="grid grid-cols-1 gap-2">
+          <button className={btnSecondary} onClick={doExport}>
+            ⬇️ Export JSON backup
+          </button>
+
+          <button
+            className={btnDanger}
+            onClick={() => pick("replace")}
+            title="This will overwrite the current database"
+          >
+            ⬆️ Import JSON (overwrite)
+          </button>
+
+          <button className={btnSecondary} onClick={() => pick("merge")} title="Add new records, review conflicts first">
+            🔀 Import JSON (merge)
+          </button>
+
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0];
+              e.target.value = "";
+              if (f) void readFile(f);
+            }}
+          />
+        </div>
+
+        {checked && (
+          <div className="mt-4 border border-slate-200 rounded-lg p-3 bg-slate-50/50">
+            <div className="flex justify-between items-center gap-2 mb-1">
+              <div className="text-xs font-bold text-slate-700">Validation report</div>
+              <button className="text-[11px] font-semibold text-[#65a30d] hover:underline" onClick={downloadReport}>
+                ⬇️ Download
+              </button>
+            </div>
+            <div className="text-[11px] text-slate-600 mb-2">
+              {checked.fileName}: format v{checked.fromVersion}
+              {checked.fromVersion < BUNDLE_VERSION ? ` → upgraded to v${BUNDLE_VERSION}` : ""} • {checked.league.players.length} players,{" "}
+              {checked.league.matches.length} matches kept • <b>{dropped}</b> dropped, <b>{repaired}</b> repaired
+            </div>
+            {checked.issues.length > 0 && (
+              <ul className="space-y-1 max-h-40 overflow-y-auto pr-1 mb-2">
+                {checked.issues.map((i, idx) => (
+                  <li key={idx} className="text-[11px] text-slate-600">
+                    <span className={`font-bold uppercase text-[10px] ${i.action === "dropped" ? "text-rose-600" : "text-amber-600"}`}>
+                      {i.action}
+                    </span>{" "}
+                    {i.record}
+                    {i.id ? ` ${i.id}` : ""}: {i.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {plan && (
+              <>
+                <div className="text-xs font-bold text-slate-700 mb-1 mt-3">Merge preview</div>
+                <ul className="text-[11px] text-slate-600 mb-2 space-y-0.5">
+                  <li>New players: <b>{plan.newPlayers.length}</b>{plan.newPlayers.length ? ` (${plan.newPlayers.map((p) => p.name).join(", ")})` : ""}</li>
+                  <li>New matches: <b>{plan.newMatches.length}</b></li>
+                  <li>New session days: <b>{plan.newSessions.length}</b>, new seasons: <b>{plan.newSeasons.length}</b></li>
+                  <li>Unchanged: <b>{plan.unchanged}</b></li>
+                  <li>Conflicts: <b>{plan.conflicts.length}</b></li>
+                </ul>
+
+                {plan.conflicts.length > 0 && (
+                  <ul className="space-y-2 max-h-72 overflow-y-auto pr-1 mb-2">
+                    {plan.conflicts.map((c) => (
+                      <li key={c.key} className="border border-slate-100 rounded-lg p-2 bg-white">
+                        <div className="text-[10px] uppercase font-bold text-amber-600">
+                          {c.reason === "changed" ? `Changed ${c.type}` : `Possible duplicate ${c.type}`}
+                        </div>
+                        <div className="text-[11px] text-slate-600">Now: {describeConflict(c, "current")}</div>
+                        <div className="text-[11px] text-slate-600">File: {describeConflict(c, "incoming")}</div>
+                        <select
+                          className={`${input} mt-1 py-1 text-xs`}
+                          value={choices[c.key] ?? "keep"}
+                          onChange={(e) => setChoices((prev) => ({ ...prev, [c.key]: e.target.value as MergeChoice }))}
+                        >
+                          {c.reason === "changed" ? (
+                            <>
+                              <option value="keep">Keep current</option>
+                              <option value="incoming">Use file version</option>
+                            </>
+                          ) : (
+                            <>
+                              <option value="keep">{c.type === "player" ? "Same player (link)" : "Same match (skip)"}</option>
+                              <option value="incoming">Add as separate {c.type}</option>
+                            </>
+                          )}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+
+            <div className="flex gap-2">
+              <button className={`${btnSecondary} flex-1 py-1 text-xs`} onClick={() => setChecked(null)}>Cancel</button>
+              {checked.mode === "merge" ? (
+                <button className={`${btnPrimary} flex-1 py-1 text-xs`} onClick={() => void applyMergePlan()}>Apply merge</button>
+              ) : (
+                <button className={`${btnDanger} flex-1 py-1 text-xs`} onClick={() => void doReplace()}>Replace database</button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3 text-[11px] text-slate-500">
+          A snapshot is taken automatically before importing. Overwrite replaces <b>players</b>, <b>matches</b> (and adds backups, if present); merge only adds what you approve.
+        </div>
+
+        {status && (
+          <div
+            className={`mt-3 text-xs font-semibold ${
+              status.kind === "ok" ? "text-emerald-700" : "text-rose-600"
+            }`}
+          >
+            {status.msg}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ========================= Data Health =========================
+// A liga-adatok ellenőrzése: hivatkozás nem létező játékosra, duplikált id-k,
+// hibás párok, edzésnapon kívüli meccsek, név nélküli játékosok. Mindegyikhez jár javítás.
+type HealthFix = {
+  label: string;
+  danger?: boolean;
+  // a javításhoz ki kell választani egy (másik) játékost
+  needsPlayer?: boolean;
+  apply: (league: LeagueDoc, playerId?: string) => Partial<LeagueDoc>;
+};
+type HealthIssue = {
+  key: string;
+  kind: "orphan" | "duplicate-id" | "duplicate-name" | "malformed" | "off-schedule" | "empty-name";
+  message: string;
+  fixes: HealthFix[];
+};
+
+const HEALTH_LABELS: Record<HealthIssue["kind"], string> = {
+  orphan: "Missing player",
+  "duplicate-id": "Duplicate id",
+  "duplicate-name": "Possible duplicate player",
+  malformed: "Malformed match",
+  "off-schedule": "Not a training day",
+  "empty-name": "Player without a name",
+};
+
+// minden csapat- és jelenlét-hivatkozás átírása (from → to)
+function reassignPlayer(league: LeagueDoc, from: string, to: string): Partial<LeagueDoc> {
+  const swap = (id: string) => (id === from ? to : id);
+  return {
+    matches: league.matches.map((m) =>
+      [...m.teamA, ...m.teamB].includes(from)
+        ? { ...m, teamA: [swap(m.teamA[0]), swap(m.teamA[1])] as Pair, teamB: [swap(m.teamB[0]), swap(m.teamB[1])] as Pair }
+        : m
+    ),
+    sessions: Object.fromEntries(
+      Object.entries(league.sessions ?? {}).map(([d, info]) => [
+        d,
+        info.present?.includes(from) ? { ...info, present: Array.from(new Set(info.present.map(swap))) } : info,
+      ])
+    ),
+  };
+}
+
+// beolvasztott játékosnál a lánc végén álló (nem beolvasztott) játékos; körnél / hiányzó célnál az utolsó ismert
+function resolveMerged(players: Player[], id: string): Player | undefined {
+  const seen = new Set<string>();
+  let p = players.find((x) => x.id === id);
+  while (p?.status === "merged" && p.mergedInto && !seen.has(p.id)) {
+    seen.add(p.id);
+    const next = players.find((x) => x.id === p!.mergedInto);
+    if (!next) break;
+    p = next;
+  }
+  return p;
+}
+
+// ha a kettő egy meccsen szerepelt, összevonás után ugyanaz a játékos állna mindkét oldalon / egy párban
+function sharedMatches(matches: Match[], a: string, b: string) {
+  return matches.filter((m) => {
+    const ids = [...m.teamA, ...m.teamB];
+    return ids.includes(a) && ids.includes(b);
+  });
+}
+
+// a beolvasztott játékos megmarad "merged" állapotban, hogy a régi hivatkozások (pl. RSVP) feloldhatók legyenek
+function mergePlayers(league: LeagueDoc, from: string, into: string): Partial<LeagueDoc> {
+  return {
+    ...reassignPlayer(league, from, into),
+    players: league.players.map((p) =>
+      p.id === from ? { ...p, status: "merged" as const, mergedInto: into } : p.mergedInto === from ? { ...p, mergedInto: into } : p
+    ),
+  };
+}
+
+function previousTrainingDate(dstr: string) {
+  let d = addDays(dstr, -1);
+  while (!TRAINING_DAYS.includes(new Date(d + "T12:00:00").getDay())) d = addDays(d, -1);
+  return d;
+}
+
+function malformedReason(m: Match): string | null {
+  if (!Array.isArray(m.teamA) || !Array.isArray(m.teamB) || m.teamA.length !== 2 || m.teamB.length !== 2) return "teams are not pairs";
+  if (!m.teamA[0] || !m.teamB[0]) return "a team has no first player";
+  if (!m.teamA[1] !== !m.teamB[1]) return "one team has two players, the other one";
+  const ids = [...m.teamA, ...m.teamB].filter(Boolean);
+  if (new Set(ids).size < ids.length) return "the same player is listed twice";
+  return null;
+}
+
+function scanLeague(league: LeagueDoc, nameOf: (id: string) => string): HealthIssue[] {
+  const issues: HealthIssue[] = [];
+  const playerIds = new Set(league.players.map((p) => p.id));
+  const describe = (m: Match) => `${m.date}: ${formatTeam(m.teamA, nameOf)} vs ${formatTeam(m.teamB, nameOf)}`;
+
+  // duplikált id-k
+  const countIds = <T extends { id: string }>(list: T[]) =>
+    list.reduce((acc, x) => acc.set(x.id, (acc.get(x.id) ?? 0) + 1), new Map<string, number>());
+  countIds(league.players).forEach((n, id) => {
+    if (n < 2) return;
+    issues.push({
+      key: `dup-player:${id}`,
+      kind: "duplicate-id",
+      message: `${n} players share the id “${id}” (${league.players.filter((p) => p.id === id).map((p) => p.name || "no name").join(", ")}).`,
+      fixes: [
+        {
+          label: "Keep the first",
+          apply: (l) => ({ players: l.players.filter((p, i) => p.id !== id || l.players.findIndex((x) => x.id === id) === i) }),
+        },
+      ],
+    });
+  });
+  countIds(league.matches).forEach((n, id) => {
+    if (n < 2) return;
+    issues.push({
+      key: `dup-match:${id}`,
+      kind: "duplicate-id",
+      message: `${n} matches share the id “${id}”.`,
+      fixes: [
+        {
+          label: "Give new ids",
+          apply: (l) => {
+            const first = l.matches.findIndex((x) => x.id === id);
+            return { matches: l.matches.map((m, i) => (m.id === id && i !== first ? { ...m, id: uid() } : m)) };
+          },
+        },
+        {
+          label: "Delete the copies",
+          danger: true,
+          apply: (l) => ({ matches: l.matches.filter((m, i) => m.id !== id || l.matches.findIndex((x) => x.id === id) === i) }),
+        },
+      ],
+    });
+  });
+
+  // hivatkozás nem létező játékosra
+  const orphans = new Map<string, Match[]>();
+  league.matches.forEach((m) =>
+    [...m.teamA, ...m.teamB].filter((id) => id && !playerIds.has(id)).forEach((id) => orphans.set(id, [...(orphans.get(id) ?? []), m]))
+  );
+  orphans.forEach((list, id) => {
+    const ids = new Set(list.map((m) => m.id));
+    issues.push({
+      key: `orphan:${id}`,
+      kind: "orphan",
+      message: `Unknown player id “${id}” in ${list.length} match${list.length === 1 ? "" : "es"} (first: ${list[0].date}).`,
+      fixes: [
+        { label: "Reassign to", needsPlayer: true, apply: (l, to) => reassignPlayer(l, id, to!) },
+        { label: "Delete matches", danger: true, apply: (l) => ({ matches: l.matches.filter((m) => !ids.has(m.id)) }) },
+      ],
+    });
+  });
+
+  // hibás párok
+  league.matches.forEach((m, i) => {
+    const reason = malformedReason(m);
+    if (!reason) return;
+    issues.push({
+      key: `malformed:${m.id}:${i}`,
+      kind: "malformed",
+      message: `${describe(m)} – ${reason}.`,
+      fixes: [{ label: "Delete match", danger: true, apply: (l) => ({ matches: l.matches.filter((_, j) => j !== i) }) }],
+    });
+  });
+
+  // edzésnapon kívüli meccsek (naponként)
+  const offDays = new Map<string, number>();
+  league.matches.forEach((m) => {
+    if (!TRAINING_DAYS.includes(new Date(m.date + "T12:00:00").getDay())) offDays.set(m.date, (offDays.get(m.date) ?? 0) + 1);
+  });
+  offDays.forEach((n, d) => {
+    const target = previousTrainingDate(d);
+    issues.push({
+      key: `off:${d}`,
+      kind: "off-schedule",
+      message: `${n} match${n === 1 ? "" : "es"} on ${d} (${weekday(d)}).`,
+      fixes: [
+        {
+          label: `Move to ${target}`,
+          apply: (l) => {
+            const sessions = { ...(l.sessions ?? {}) };
+            if (sessions[d] && !sessions[target]) sessions[target] = sessions[d];
+            if (sessions[d]) delete sessions[d];
+            return { matches: l.matches.map((m) => (m.date === d ? { ...m, date: target } : m)), sessions };
+          },
+        },
+        { label: "Delete matches", danger: true, apply: (l) => ({ matches: l.matches.filter((m) => m.date !== d) }) },
+      ],
+    });
+  });
+
+  // név nélküli és azonos nevű játékosok
+  league.players.forEach((p) => {
+    if (p.status === "merged" || realName(p)) return;
+    const used = league.matches.some((m) => [...m.teamA, ...m.teamB].includes(p.id));
+    issues.push({
+      key: `empty:${p.id}`,
+      kind: "empty-name",
+      message: `Player “${p.id}” has no name${used ? " but has matches" : ""}.`,
+      fixes: [
+        { label: "Merge into", needsPlayer: true, apply: (l, to) => mergePlayers(l, p.id, to!) },
+        ...(used ? [] : [{ label: "Delete player", danger: true, apply: (l: LeagueDoc) => ({ players: l.players.filter((x) => x.id !== p.id) }) }]),
+      ],
+    });
+  });
+  const byBase = new Map<string, Player[]>();
+  league.players.forEach((p) => {
+    const k = p.status === "merged" ? "" : playerKey(p);
+    if (k) byBase.set(k, [...(byBase.get(k) ?? []), p]);
+  });
+  byBase.forEach((list) => {
+    if (list.length < 2 || new Set(list.map((p) => p.id)).size < 2) return;
+    const [keep, ...rest] = list;
+    issues.push({
+      key: `dup-name:${list.map((p) => p.id).join(",")}`,
+      kind: "duplicate-name",
+      message: `${list.map((p) => p.name).join(", ")} look like the same person.`,
+      fixes: [
+        {
+          label: `Merge into ${keep.name}`,
+          apply: (l) => rest.reduce((acc, p) => ({ ...acc, ...mergePlayers({ ...l, ...acc }, p.id, keep.id) }), {} as Partial<LeagueDoc>),
+        },
+      ],
+    });
+  });
+
+  return issues;
+}
+
+function DataHealthCard({ league, onFix }: { league: LeagueDoc; onFix: (patch: Partial<LeagueDoc>, summary: string) => void }) {
+  const [target, setTarget] = useState<Record<string, string>>({});
+  const nameOf = (id: string) => league.players.find((p) => p.id === id)?.name || "Unknown";
+  const issues = useMemo(
+    () => scanLeague(league, (id) => league.players.find((p) => p.id === id)?.name || "Unknown"),
+    [league]
+  );
+  const sortedPlayers = league.players.filter((p) => p.name?.trim() && p.status !== "merged").sort(byRealName);
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Data health</h3>
+        {issues.length === 0 ? (
+          <p className="text-sm text-emerald-700 font-semibold">✓ No problems found.</p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500 mb-3">{issues.length} problem(s) found. A snapshot is taken before each fix.</p>
+            <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+              {issues.map((issue) => (
+                <li key={issue.key} className="border border-slate-100 rounded-lg p-2 bg-slate-50/50">
+                  <div className="text-[10px] uppercase font-bold text-amber-600">{HEALTH_LABELS[issue.kind]}</div>
+                  <div className="text-xs text-slate-600 mb-1 break-words">{issue.message}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {issue.fixes.map((fix) => {
+                      const pid = target[issue.key] ?? "";
+                      return (
+                        <div key={fix.label} className="flex gap-1 items-center">
+                          {fix.needsPlayer && (
+                            <select
+                              className={`${input} py-1 text-xs`}
+                              value={pid}
+                              onChange={(e) => setTarget((prev) => ({ ...prev, [issue.key]: e.target.value }))}
+                            >
+                              <option value="">Choose player…</option>
+                              {sortedPlayers.map((p) => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <button
+                            className={`${fix.danger ? btnDanger : btnSecondary} py-1 px-2 text-xs whitespace-nowrap`}
+                            disabled={fix.needsPlayer && !pid}
+                            onClick={() =>
+                              onFix(
+                                fix.apply(league, pid || undefined),
+                                `${HEALTH_LABELS[issue.kind]}: ${fix.label}${fix.needsPlayer ? ` ${nameOf(pid)}` : ""}`
+                              )
+                            }
+                          >
+                            {fix.label}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const NEW_PLAYER = "__new";
+const SKIP_ROWS = "__skip";
+
+function CsvCard({
+  league,
+  leagueId,
+  onImport,
+}: {
+  league: LeagueDoc;
+  leagueId: string;
+  onImport: (doc: LeagueDoc, summary: string) => Promise<void> | void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [period, setPeriod] = useState("all");
+  const [parsed, setParsed] = useState<{ fileName: string; rows: CsvMatchRow[]; errors: string[] } | null>(null);
+  // ismeretlen név → meglévő játékos id / új játékos / sorok kihagyása
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+
+  const seasons = league.seasons ?? [];
+  const nameOf = (id: string) => league.players.find((p) => p.id === id)?.name || "Unknown";
+  // beolvasztott játékosra nem képezünk le nevet
+  const candidates = useMemo(() => league.players.filter((p) => p.status !== "merged"), [league.players]);
+  const sortedPlayers = [...candidates].sort(byRealName);
+
+  const exportStandings = () => {
+    const season = seasons.find((x) => x.id === period);
+    const rows = computeStandings(league.players, season ? league.matches.filter((m) => inSeason(m.date, season)) : league.matches, league.settings);
+    download(exportFilename(leagueId, `standings-${season ? slugify(season.name) || season.id : "all-time"}`, "csv"), standingsCsv(rows), CSV_TYPE);
+  };
+
+  const unknown = useMemo(() => {
+    if (!parsed) return [];
+    const names = new Map<string, string>();
+    parsed.rows.forEach((r) =>
+      [...r.teamA, ...r.teamB].forEach((n) => {
+        if (!resolvePlayerName(n, candidates) && !names.has(normName(n))) names.set(normName(n), n);
+      })
+    );
+    return Array.from(names.values());
+  }, [parsed, candidates]);
+
+  const readFile = async (file: File) => {
+    setStatus(null);
+    try {
+      const { rows, errors } = parseMatchesCsv(await file.text());
+      if (!rows.length) throw new Error(errors[0] ?? "No matches found in the file.");
+      setParsed({ fileName: file.name, rows, errors });
+      setMapping({});
+    } catch (e: any) {
+      setParsed(null);
+      setStatus({ kind: "err", msg: e?.message || "Could not read the CSV file." });
+    }
+  };
+
+  const apply = async () => {
+    if (!parsed) return;
+    const newPlayers: Player[] = [];
+    const mapped = new Map<string, string | null>();
+    unknown.forEach((n) => {
+      const choice = mapping[normName(n)] ?? NEW_PLAYER;
+      if (choice === SKIP_ROWS) mapped.set(normName(n), null);
+      else if (choice === NEW_PLAYER) {
+        const p = withProfile({ id: uid(), name: "" }, splitLegacyName(n));
+        newPlayers.push(p);
+        mapped.set(normName(n), p.id);
+      } else mapped.set(normName(n), choice);
+    });
+    const resolve = (n: string) => resolvePlayerName(n, candidates)?.id ?? mapped.get(normName(n)) ?? null;
+
+    // a ligában már szereplő (azonos nap + csapatok) meccseket nem vesszük fel újra
+    const existing = new Set(league.matches.map((m) => `${m.date}|${teamsKey(m)}`));
+    const newMatches: Match[] = [];
+    let skipped = 0;
+    let duplicates = 0;
+    parsed.rows.forEach((r) => {
+      const a = r.teamA.map(resolve);
+      const b = r.teamB.map(resolve);
+      const ids = [...a, ...b];
+      if (ids.some((id) => !id) || new Set(ids).size < ids.length) {
+        skipped++;
+        return;
+      }
+      const m: Match = {
+        id: uid(),
+        date: r.date,
+        teamA: [a[0]!, a[1] ?? ""],
+        teamB: [b[0]!, b[1] ?? ""],
+        ...(r.winner ? { winner: r.winner } : {}),
+        ...(r.scores ? { scores: r.scores } : {}),
+      };
+      if (existing.has(`${m.date}|${teamsKey(m)}`)) {
+        duplicates++;
+        return;
+      }
+      newMatches.push(m);
+    });
+
+    const summary = `CSV import: +${newMatches.length} matches, +${newPlayers.length} players${skipped ? `, ${skipped} rows skipped` : ""}${duplicates ? `, ${duplicates} already recorded` : ""}`;
+    try {
+      await onImport({ ...league, players: [...league.players, ...newPlayers], matches: [...league.matches, ...newMatches] }, summary);
+      setParsed(null);
+      setStatus({ kind: "ok", msg: summary });
+    } catch (e: any) {
+      setStatus({ kind: "err", msg: e?.message || "Import failed." });
+    }
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Spreadsheets (CSV)</h3>
+        <p className="text-xs text-slate-500 mb-4">For Excel / Google Sheets. Match import needs columns: date, team A, team B, winner (and optionally score).</p>
+
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <button className={btnSecondary} onClick={() => download(exportFilename(leagueId, "players", "csv"), playersCsv(league.players), CSV_TYPE)}>
+            ⬇️ Players
+          </button>
+          <button className={btnSecondary} onClick={() => download(exportFilename(leagueId, "matches", "csv"), matchesCsv(league.matches, nameOf), CSV_TYPE)}>
+            ⬇️ Matches
+          </button>
+        </div>
+        <div className="flex gap-2 mb-2">
+          <select className={`${input} py-1 text-sm`} value={period} onChange={(e) => setPeriod(e.target.value)}>
+            <option value="all">All time</option>
+            {seasons.map((x) => (
+              <option key={x.id} value={x.id}>{x.name}</option>
+            ))}
+          </select>
+          <button className={`${btnSecondary} whitespace-nowrap`} onClick={exportStandings}>⬇️ Standings</button>
+        </div>
+        <button className={`${btnSecondary} w-full`} onClick={() => fileRef.current?.click()}>
+          ⬆️ Import matches (CSV)
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            e.target.value = "";
+            if (f) void readFile(f);
+          }}
+        />
 
-    const backups: Backup[] = Array.isArray(src?.backups)
-      ? src.backups
-          .filter((b: any) => b && typeof b.id === "string" && b.data)
-          .map((b: any) => ({
-            id: b.id,
-            createdAt: typeof b.createdAt === "string" ? b.createdAt : new Date().toISOString(),
-          ...(typeof b.note === "string" ? { note: b.note } : {}),
-            data: {
-              players: Array.isArray(b.data?.players) ? b.data.players : [],
-              matches: Array.isArray(b.data?.matches) ? b.data.matches : [],
-            },
-          }))
-      : [];
+        {parsed && (
+          <div className="mt-4 border border-slate-200 rounded-lg p-3 bg-slate-50/50">
+            <div className="text-xs font-bold text-slate-700 mb-1">{parsed.fileName}</div>
+            <div className="text-[11px] text-slate-600 mb-2">
+              {parsed.rows.length} matches read{unknown.length ? `, ${unknown.length} unknown names` : ", all names matched"}
+            </div>
+            {parsed.errors.length > 0 && (
+              <ul className="space-y-0.5 max-h-24 overflow-y-auto pr-1 mb-2">
+                {parsed.errors.map((err, i) => (
+                  <li key={i} className="text-[11px] text-amber-700">{err}</li>
+                ))}
+              </ul>
+            )}
+            {unknown.length > 0 && (
+              <ul className="space-y-2 max-h-64 overflow-y-auto pr-1 mb-2">
+                {unknown.map((n) => (
+                  <li key={n} className="flex items-center gap-2">
+                    <span className="text-xs font-semibold text-slate-700 w-1/3 truncate" title={n}>{n}</span>
+                    <select
+                      className={`${input} py-1 text-xs`}
+                      value={mapping[normName(n)] ?? NEW_PLAYER}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [normName(n)]: e.target.value }))}
+                    >
+                      <option value={NEW_PLAYER}>➕ Create new player</option>
+                      <option value={SKIP_ROWS}>Skip these matches</option>
+                      {sortedPlayers.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <button className={`${btnSecondary} flex-1 py-1 text-xs`} onClick={() => setParsed(null)}>Cancel</button>
+              <button className={`${btnPrimary} flex-1 py-1 text-xs`} onClick={() => void apply()}>Import</button>
+            </div>
+          </div>
+        )}
 
-return {
-  ...(typeof src?.title === "string" ? { title: src.title } : {}),
-  players: cleanPlayers,
-  matches: cleanMatches,
-  backups,
-};
+        {status && (
+          <div className={`mt-3 text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</div>
+        )}
+      </div>
+    </div>
+  );
+}
 
-  };
+function BackupsCard({ backups, players, matches, retention, onTake, onRestore, onDelete, onRetentionChange }: {
+  backups: Backup[];
+  players: Player[];
+  matches: Match[];
+  retention: number;
+  onTake: (note: string) => Promise<unknown>;
+  onRestore: (b: Backup) => Promise<void>;
+  onDelete: (id: string) => void;
+  onRetentionChange: (n: number) => void;
+}) {
+  const [note, setNote] = useState("");
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
 
-  const doExport = () => {
+  const run = async (fn: () => Promise<void>, ok: string) => {
     setStatus(null);
     try {
-      const content = buildExport();
-      download(`bia-tollas-backup-${fmt(new Date())}.json`, content);
-      setStatus({ kind: "ok", msg: "Backup exported." });
+      await fn();
+      setStatus({ kind: "ok", msg: ok });
     } catch (e: any) {
-      setStatus({ kind: "err", msg: e?.message || "Export failed." });
+      setStatus({ kind: "err", msg: e?.message || "Something went wrong." });
     }
   };
 
-  const doImport = async (file: File) => {
-    setStatus(null);
-    try {
-      const txt = await file.text();
-      const raw = JSON.parse(txt);
-      const cleaned = sanitizeLeague(raw);
-      if (!cleaned) throw new Error("Invalid backup format (need players + matches).");
-
-      await onReplace(cleaned);
-      setStatus({ kind: "ok", msg: "Backup imported (database replaced)." });
-    } catch (e: any) {
-      setStatus({ kind: "err", msg: e?.message || "Import failed." });
-    }
+  const diffText = (b: Backup) => {
+    const d = backupDiff(b, players, matches);
+    const parts = [
+      d.playersAdded && `+${d.playersAdded} players`,
+      d.playersRemoved && `−${d.playersRemoved} players`,
+      d.matchesAdded && `+${d.matchesAdded} matches`,
+      d.matchesRemoved && `−${d.matchesRemoved} matches`,
+      d.resultsChanged && `${d.resultsChanged} results differ`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" • ") : "Same as now";
   };
 
   return (
     <div className={cardContainer}>
       <BrandStripe />
       <div className={cardContent}>
-        <h3 className="font-bold text-slate-800 mb-1">Import / Export</h3>
-        <p className="text-xs text-slate-500 mb-4">
-          Export a full JSON backup, or import one to fully restore the database.
-        </p>
-
-        <div className="grid grid-cols-1 gap-2">
-          <button className={btnSecondary} onClick={doExport}>
-            ⬇️ Export JSON backup
-          </button>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-bold text-slate-800">Snapshots</h3>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] uppercase font-bold text-slate-400">Keep</span>
+            <input
+              className={`${input} w-14 py-1 text-sm text-center`}
+              inputMode="numeric"
+              value={retention}
+              onChange={(e) => {
+                const n = parseInt(e.target.value.replace(/[^0-9]/g, ""), 10);
+                if (Number.isFinite(n) && n > 0) onRetentionChange(Math.min(n, 100));
+              }}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">Taken automatically before imports, player removal, auto draws and restores.</p>
 
+        <div className="flex gap-2 mb-3">
+          <input className={input} placeholder="Note (optional)..." value={note} onChange={(e) => setNote(e.target.value)} />
           <button
-            className={btnDanger}
-            onClick={() => fileRef.current?.click()}
-            title="This will overwrite the current database"
+            className={btnPrimary}
+            onClick={() => void run(async () => { await onTake(note.trim() || "Manual snapshot"); setNote(""); }, "Snapshot saved.")}
           >
-            ⬆️ Import JSON (overwrite)
+            Save
           </button>
-
-          <input
-            ref={fileRef}
-            type="file"
-            accept="application/json,.json"
-            className="hidden"
-            onChange={(e) => {
-              const f = e.target.files?.[0];
-              e.target.value = "";
-              if (f) void doImport(f);
-            }}
-          />
         </div>
 
-        <div className="mt-3 text-[11px] text-slate-500">
-          Tip: keep a backup before importing. Import replaces <b>players</b>, <b>matches</b> (and backups, if present).
+        {backups.length === 0 ? (
+          <p className="text-sm text-slate-400">No snapshots yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+            {backups.map((b) => (
+              <li key={b.id} className="border border-slate-100 rounded-lg p-2 bg-slate-50/50">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-slate-700 truncate">{b.note || "Snapshot"}</div>
+                    <div className="text-[10px] text-slate-400">
+                      {new Date(b.createdAt).toLocaleString()} • {b.data.players.length} players, {b.data.matches.length} matches
+                    </div>
+                    <div className="text-[10px] text-slate-500 mt-0.5">{diffText(b)}</div>
+                  </div>
+                  <button onClick={() => onDelete(b.id)} title="Delete snapshot" className="px-1 text-rose-400 font-bold hover:text-rose-600">✕</button>
+                </div>
+                {confirmId === b.id ? (
+                  <div className="flex gap-2 mt-2">
+                    <button className={`${btnSecondary} flex-1 py-1 text-xs`} onClick={() => setConfirmId(null)}>Cancel</button>
+                    <button
+                      className={`${btnDanger} flex-1 py-1 text-xs`}
+                      onClick={() => { setConfirmId(null); void run(() => onRestore(b), "Snapshot restored."); }}
+                    >
+                      Confirm restore
+                    </button>
+                  </div>
+                ) : (
+                  <button className={`${btnSecondary} w-full mt-2 py-1 text-xs`} onClick={() => setConfirmId(b.id)}>Restore</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {status && (
+          <div className={`mt-3 text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AuditLogCard({ entries, onUndo }: { entries: AuditEntry[]; onUndo: (e: AuditEntry) => string | null }) {
+  const [action, setAction] = useState<AuditAction | "">("");
+  const [actor, setActor] = useState("");
+  const [status, setStatus] = useState<{ kind: "ok" | "err"; msg: string } | null>(null);
+
+  const actors = useMemo(() => Array.from(new Set(entries.map((e) => e.actor))).sort(), [entries]);
+  const undone = useMemo(() => new Set(entries.map((e) => e.undoOf).filter(Boolean)), [entries]);
+  const shown = entries.filter((e) => (!action || e.action === action) && (!actor || e.actor === actor));
+
+  const undo = (e: AuditEntry) => {
+    const err = onUndo(e);
+    setStatus(err ? { kind: "err", msg: err } : { kind: "ok", msg: `Undone: ${e.summary}` });
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Activity</h3>
+        <p className="text-xs text-slate-500 mb-3">Every admin change, newest first. Undo applies the reverse change.</p>
+
+        <div className="flex gap-2 mb-3">
+          <select className={`${input} py-1 text-xs`} value={action} onChange={(e) => setAction(e.target.value as AuditAction | "")}>
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_LABELS) as AuditAction[]).map((a) => (
+              <option key={a} value={a}>{AUDIT_LABELS[a]}</option>
+            ))}
+          </select>
+          <select className={`${input} py-1 text-xs`} value={actor} onChange={(e) => setActor(e.target.value)}>
+            <option value="">Everyone</option>
+            {actors.map((a) => (
+              <option key={a} value={a}>{a}</option>
+            ))}
+          </select>
         </div>
 
+        {shown.length === 0 ? (
+          <p className="text-sm text-slate-400">No activity recorded.</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+            {shown.map((e) => (
+              <li key={e.id} className="border border-slate-100 rounded-lg p-2 bg-slate-50/50">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-slate-700">{AUDIT_LABELS[e.action]}</div>
+                    <div className="text-xs text-slate-600 break-words">{e.summary}</div>
+                    <div className="text-[10px] text-slate-400">
+                      {new Date(e.at).toLocaleString()} • {e.actor}
+                    </div>
+                  </div>
+                  {undone.has(e.id) ? (
+                    <span className="text-[10px] uppercase font-bold text-slate-400 whitespace-nowrap">Undone</span>
+                  ) : (
+                    <button className={`${btnSecondary} py-1 px-2 text-xs`} onClick={() => undo(e)}>Undo</button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {status && (
-          <div
-            className={`mt-3 text-xs font-semibold ${
-              status.kind === "ok" ? "text-emerald-700" : "text-rose-600"
-            }`}
-          >
-            {status.msg}
-          </div>
+          <div className={`mt-3 text-xs font-semibold ${status.kind === "ok" ? "text-emerald-700" : "text-rose-600"}`}>{status.msg}</div>
         )}
       </div>
     </div>
   );
 }
 
-function PlayerEditor({ players, onAdd, onRemove, onUpdateEmoji, onUpdateGender }: any) {
+const UNDO_TOAST_MS = 8000;
+
+// a legutóbbi admin-művelet visszavonása, közvetlenül utána
+function UndoToast({ entry, onUndo, onClose }: { entry: AuditEntry | null; onUndo: (e: AuditEntry) => string | null; onClose: () => void }) {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!entry) return;
+    const t = window.setTimeout(onClose, UNDO_TOAST_MS);
+    return () => window.clearTimeout(t);
+  }, [entry, onClose]);
+
+  if (!entry) return null;
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm rounded-xl bg-slate-800 text-white shadow-lg px-4 py-3 text-sm flex items-center gap-3">
+      <div className="min-w-0">
+        <div className="font-semibold">{AUDIT_LABELS[entry.action]}</div>
+        <div className="text-xs text-slate-300 truncate">{error ?? entry.summary}</div>
+      </div>
+      <button
+        className="font-bold text-[#84cc16] hover:text-[#a3e635] whitespace-nowrap"
+        onClick={() => {
+          const err = onUndo(entry);
+          if (err) setError(err);
+          else onClose();
+        }}
+      >
+        Undo
+      </button>
+      <button className="text-slate-400 hover:text-white" onClick={onClose} title="Dismiss">✕</button>
+    </div>
+  );
+}
+
+// teljes emoji-választó kategóriákkal; bármilyen emoji be is írható
+function EmojiPicker({ value, onPick }: { value?: string; onPick: (emoji: string) => void }) {
+  const [group, setGroup] = useState(Object.keys(EMOJI_GROUPS)[0]);
+  const [custom, setCustom] = useState("");
+  const customEmoji = splitLegacyName(custom).emoji;
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg p-2 space-y-2">
+      <div className="flex gap-1 overflow-x-auto">
+        {Object.keys(EMOJI_GROUPS).map((g) => (
+          <button key={g} onClick={() => setGroup(g)} className={`px-2 py-0.5 text-[11px] rounded-full whitespace-nowrap ${group === g ? "bg-[#84cc16] text-white" : "bg-slate-100 text-slate-500"}`}>
+            {g}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-8 gap-1 max-h-32 overflow-y-auto">
+        {EMOJI_GROUPS[group].map((e) => (
+          <button key={e} onClick={() => onPick(e)} className={`text-xl p-1 rounded hover:bg-slate-100 ${value === e ? "bg-lime-100" : ""}`}>{e}</button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input className={`${input} py-1 text-xs`} placeholder="Or paste any emoji…" value={custom} onChange={(e) => setCustom(e.target.value)} />
+        <button className={`${btnSecondary} py-1 px-2 text-xs`} disabled={!customEmoji} onClick={() => { if (customEmoji) { onPick(customEmoji); setCustom(""); } }}>Use</button>
+      </div>
+    </div>
+  );
+}
+
+function PlayerAvatar({ player, size = "w-8 h-8 text-lg" }: { player: Player; size?: string }) {
+  const emoji = player.emoji ?? splitLegacyName(player.name).emoji;
+  return (
+    <span className={`${size} rounded-full inline-flex items-center justify-center shrink-0 border border-slate-200`} style={{ backgroundColor: player.color ?? "#f8fafc" }}>
+      {emoji ?? realName(player).charAt(0).toUpperCase()}
+    </span>
+  );
+}
+
+function PlayerEditor({ players, usedIds, onAdd, onRemove, onArchive, onMerge, onUpdateProfile, onUpdateGender }: any) {
   const [name, setName] = useState("");
   const [emoji, setEmoji] = useState(EMOJIS[0]);
   const [showEmoji, setShowEmoji] = useState(false);
   const [showManage, setShowManage] = useState(false);
   const [selectedPlayerId, setSelectedPlayerId] = useState("");
-  
-  useEffect(() => { if(!selectedPlayerId && players.length) setSelectedPlayerId(players[0].id); }, [players, selectedPlayerId]);
-  const selectedPlayer = players.find((p:any) => p.id === selectedPlayerId);
+  const [mergeInto, setMergeInto] = useState("");
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [rename, setRename] = useState("");
+  const [nickname, setNickname] = useState("");
+  const [showEditEmoji, setShowEditEmoji] = useState(false);
+
+  // beolvasztott játékost már nem lehet szerkeszteni
+  const manageable: Player[] = useMemo(() => players.filter((p: Player) => p.status !== "merged").sort(byRealName), [players]);
+  useEffect(() => {
+    if (manageable.length && !manageable.some((p: Player) => p.id === selectedPlayerId)) setSelectedPlayerId(manageable[0].id);
+  }, [manageable, selectedPlayerId]);
+  const selectedPlayer = manageable.find((p) => p.id === selectedPlayerId);
+  // játékosváltáskor a szerkesztőmezők a kiválasztott profilját mutatják
+  useEffect(() => {
+    setMergeInto("");
+    setMergeError(null);
+    setShowEditEmoji(false);
+  }, [selectedPlayerId]);
+  useEffect(() => {
+    setRename(selectedPlayer ? realName(selectedPlayer) : "");
+    setNickname(selectedPlayer?.nickname ?? "");
+  }, [selectedPlayer]);
+
+  const nameTaken = (displayName: string, exceptId?: string) =>
+    manageable.some((p) => p.id !== exceptId && normName(realName(p)) === normName(displayName));
+  const add = () => {
+    const displayName = name.trim();
+    if (!displayName) return;
+    // a mentés is elutasítja (név-őr a tranzakcióban), ezért itt sem engedjük
+    if (nameTaken(displayName)) return;
+    onAdd({ displayName, emoji });
+    setName("");
+  };
+  const saveNames = () => {
+    if (!selectedPlayer || !rename.trim()) return;
+    if (nameTaken(rename, selectedPlayer.id) && !confirm(`A player called ${rename.trim()} already exists. Rename anyway?`)) return;
+    onUpdateProfile(selectedPlayer.id, { displayName: rename.trim(), nickname: nickname.trim() || undefined });
+  };
+  const namesChanged = !!selectedPlayer && (rename.trim() !== realName(selectedPlayer) || nickname.trim() !== (selectedPlayer.nickname ?? ""));
 
   return (
     <div className={cardContainer}>
@@ -792,12 +3866,15 @@ function PlayerEditor({ players, onAdd, onRemove, onUpdateEmoji, onUpdateGender
         <h3 className="font-bold text-slate-800 mb-4">Add Player</h3>
         <div className="flex gap-2 mb-4">
             <button className="text-2xl bg-slate-50 rounded-lg w-12 h-10 border border-slate-200 flex items-center justify-center" onClick={() => setShowEmoji(!showEmoji)}>{emoji}</button>
-            <input className={input} placeholder="Name..." value={name} onChange={e => setName(e.target.value)} />
-            <button className={btnPrimary} onClick={() => { if(name) { onAdd(`${emoji} ${name}`); setName(""); } }}>Add</button>
+            <input className={input} placeholder="Name..." value={name} onChange={e => setName(e.target.value)} onKeyDown={e => { if (e.key === "Enter") add(); }} />
+            <button className={btnPrimary} onClick={add} disabled={!!name.trim() && nameTaken(name)}>Add</button>
         </div>
+        {!!name.trim() && nameTaken(name) && (
+            <p className="text-xs text-rose-600 -mt-2 mb-3">A player called {name.trim()} already exists.</p>
+        )}
         {showEmoji && (
-            <div className="flex gap-1 overflow-x-auto pb-2 mb-2">
-                {EMOJIS.map(e => <button key={e} onClick={() => { setEmoji(e); setShowEmoji(false); }} className="text-xl hover:bg-slate-100 p-1 rounded">{e}</button>)}
+            <div className="mb-3">
+                <EmojiPicker value={emoji} onPick={(e) => { setEmoji(e); setShowEmoji(false); }} />
             </div>
         )}
 
@@ -808,10 +3885,18 @@ function PlayerEditor({ players, onAdd, onRemove, onUpdateEmoji, onUpdateGender
         {showManage && (
             <div className="border-t border-slate-100 pt-3 space-y-3">
                 <select className={input} value={selectedPlayerId} onChange={(e) => setSelectedPlayerId(e.target.value)}>
-                    {players.map((p:any) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    {manageable.map((p) => <option key={p.id} value={p.id}>{p.name}{p.nickname ? ` “${p.nickname}”` : ""}{p.status === "archived" ? " (archived)" : ""}</option>)}
                 </select>
                 {selectedPlayer && (
                     <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-3">
+                        <div>
+                            <div className="text-xs font-bold text-slate-400 uppercase mb-1">Name</div>
+                            <div className="space-y-2">
+                                <input className={`${input} py-1 text-sm`} placeholder="Real name" value={rename} onChange={(e) => setRename(e.target.value)} />
+                                <input className={`${input} py-1 text-sm`} placeholder="Nickname (optional)" value={nickname} onChange={(e) => setNickname(e.target.value)} />
+                                <button className={`${btnPrimary} w-full py-1 text-xs`} disabled={!namesChanged || !rename.trim()} onClick={saveNames}>Save name</button>
+                            </div>
+                        </div>
                         <div>
                             <div className="text-xs font-bold text-slate-400 uppercase mb-1">Gender</div>
                             <div className="flex gap-2">
@@ -823,12 +3908,50 @@ function PlayerEditor({ players, onAdd, onRemove, onUpdateEmoji, onUpdateGender
                             </div>
                         </div>
                         <div>
-                            <div className="text-xs font-bold text-slate-400 uppercase mb-1">Change Emoji</div>
-                            <div className="flex gap-1 overflow-x-auto pb-2">
-                                {EMOJIS.slice(0,8).map(e => <button key={e} onClick={() => onUpdateEmoji(selectedPlayer.id, e)} className="text-lg hover:scale-110 transition-transform">{e}</button>)}
+                            <div className="text-xs font-bold text-slate-400 uppercase mb-1">Avatar</div>
+                            <div className="flex items-center gap-2 mb-2">
+                                <button onClick={() => setShowEditEmoji(!showEditEmoji)} title="Change emoji">
+                                    <PlayerAvatar player={selectedPlayer} size="w-10 h-10 text-2xl" />
+                                </button>
+                                <div className="flex flex-wrap gap-1">
+                                    {AVATAR_COLORS.map((c) => (
+                                        <button key={c} onClick={() => onUpdateProfile(selectedPlayer.id, { color: c })} className={`w-5 h-5 rounded-full border-2 ${selectedPlayer.color === c ? "border-slate-700" : "border-white"}`} style={{ backgroundColor: c }} title={c} />
+                                    ))}
+                                    {selectedPlayer.color && (
+                                        <button onClick={() => onUpdateProfile(selectedPlayer.id, { color: undefined })} className="text-[10px] text-slate-400 hover:text-slate-600 px-1">reset</button>
+                                    )}
+                                </div>
+                            </div>
+                            {showEditEmoji && (
+                                <EmojiPicker value={selectedPlayer.emoji} onPick={(e) => { onUpdateProfile(selectedPlayer.id, { emoji: e }); setShowEditEmoji(false); }} />
+                            )}
+                        </div>
+                        <div>
+                            <div className="text-xs font-bold text-slate-400 uppercase mb-1">Merge into</div>
+                            <div className="flex gap-2">
+                                <select className={`${input} py-1 text-xs`} value={mergeInto} onChange={(e) => { setMergeInto(e.target.value); setMergeError(null); }}>
+                                    <option value="">Choose player…</option>
+                                    {manageable.filter((p) => p.id !== selectedPlayer.id).map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                                <button
+                                    className={`${btnSecondary} py-1 px-2 text-xs whitespace-nowrap`}
+                                    disabled={!mergeInto}
+                                    onClick={() => {
+                                        const target = manageable.find((p) => p.id === mergeInto);
+                                        if (target && confirm(`Move all matches of ${selectedPlayer.name} to ${target.name}?`)) setMergeError(onMerge(selectedPlayer.id, target.id));
+                                    }}
+                                >
+                                    Merge
+                                </button>
                             </div>
+                            {mergeError && <p className="mt-1 text-xs font-semibold text-rose-600">{mergeError}</p>}
                         </div>
-                        <button onClick={() => onRemove(selectedPlayer.id)} className={`${btnDanger} w-full py-1 text-xs`}>Remove Player</button>
+                        <button onClick={() => onArchive(selectedPlayer.id, selectedPlayer.status !== "archived")} className={`${btnSecondary} w-full py-1 text-xs`}>
+                            {selectedPlayer.status === "archived" ? "Restore to active" : "Archive (keep history)"}
+                        </button>
+                        {!usedIds.has(selectedPlayer.id) && (
+                            <button onClick={() => onRemove(selectedPlayer.id)} className={`${btnDanger} w-full py-1 text-xs`}>Delete Player</button>
+                        )}
                     </div>
                 )}
             </div>
@@ -973,52 +4096,399 @@ function SelectPairs({ players, freeIds, seenTeammates, onCreate }: any) {
   );
 }
 
-function DrawMatches({ players, presentIds, matchesForDate, date, league, write }: any) {
+// ========================= Session Scheduler =========================
+type DrawRound = { matches: Match[]; sitOut: string[] };
+
+const PARTNER_REPEAT_COST = 10;
+const OPPONENT_REPEAT_COST = 1;
+const DRAW_ATTEMPTS = 300;
+
+const shuffle = <T,>(arr: T[]): T[] => {
+  const out = [...arr];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+const bump = (m: Map<string, number>, k: string) => m.set(k, (m.get(k) ?? 0) + 1);
+
+/**
+ * Több kör párosítása egyszerre:
+ * - kimaradók: akik eddig a legkevesebbszer ültek ki (így forog a pihenő)
+ * - pályánként 4 fő, a párosítás a legkisebb "ismétlés-költségű" felosztás
+ *   (ugyanaz a csapattárs sokkal drágább, mint ugyanaz az ellenfél)
+ * A csapattárs-kulcs ugyanaz a key(), mint a seenTeammates-nél.
+ */
+function scheduleRounds({
+  playerIds,
+  rounds,
+  courts,
+  date,
+  history,
+}: {
+  playerIds: string[];
+  rounds: number;
+  courts: number;
+  date: string;
+  history: Match[];
+}): DrawRound[] {
+  const partners = new Map<string, number>();
+  const opponents = new Map<string, number>();
+  const sitOuts = new Map<string, number>(playerIds.map((id) => [id, 0]));
+  const played = new Map<string, number>(playerIds.map((id) => [id, 0]));
+
+  const record = (tA: Pair, tB: Pair) => {
+    if (tA[1]) bump(partners, key(tA[0], tA[1]));
+    if (tB[1]) bump(partners, key(tB[0], tB[1]));
+    tA.filter(Boolean).forEach((a) => tB.filter(Boolean).forEach((b) => bump(opponents, key(a, b))));
+    [...tA, ...tB].forEach((id) => played.has(id) && played.set(id, played.get(id)! + 1));
+  };
+  history.forEach((m) => record(m.teamA, m.teamB));
+
+  const pairingCost = (tA: Pair, tB: Pair) =>
+    PARTNER_REPEAT_COST * ((partners.get(key(tA[0], tA[1])) ?? 0) + (partners.get(key(tB[0], tB[1])) ?? 0)) +
+    OPPONENT_REPEAT_COST *
+      tA.reduce((sum, a) => sum + tB.reduce((acc, b) => acc + (opponents.get(key(a, b)) ?? 0), 0), 0);
+
+  // egy 4-es csoport legjobb felosztása a 3 lehetségesből
+  const bestSplit = ([p, q, r, t]: string[]) => {
+    const options: [Pair, Pair][] = [
+      [[p, q], [r, t]],
+      [[p, r], [q, t]],
+      [[p, t], [q, r]],
+    ];
+    return options
+      .map(([tA, tB]) => ({ tA, tB, cost: pairingCost(tA, tB) }))
+      .sort((x, y) => x.cost - y.cost)[0];
+  };
+
+  const out: DrawRound[] = [];
+  for (let r = 0; r < rounds; r++) {
+    const slots = Math.min(courts * 4, Math.floor(playerIds.length / 4) * 4);
+    if (slots < 4) break;
+
+    // aki a legkevesebbet pihent (és a legtöbbet játszott), az pihen most
+    const order = shuffle(playerIds).sort(
+      (a, b) => sitOuts.get(a)! - sitOuts.get(b)! || played.get(b)! - played.get(a)!
+    );
+    const sitOut = order.slice(0, playerIds.length - slots);
+    const active = order.slice(playerIds.length - slots);
+
+    let best: { tA: Pair; tB: Pair }[] = [];
+    let bestCost = Infinity;
+    for (let attempt = 0; attempt < DRAW_ATTEMPTS && bestCost > 0; attempt++) {
+      const pool = shuffle(active);
+      const games: { tA: Pair; tB: Pair }[] = [];
+      let cost = 0;
+      for (let i = 0; i < pool.length; i += 4) {
+        const g = bestSplit(pool.slice(i, i + 4));
+        games.push(g);
+        cost += g.cost;
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = games;
+      }
+    }
+
+    const roundMatches = best.map(({ tA, tB }) => ({ id: uid(), date, teamA: tA, teamB: tB }));
+    roundMatches.forEach((m) => record(m.teamA, m.teamB));
+    sitOut.forEach((id) => bump(sitOuts, id));
+    out.push({ matches: roundMatches, sitOut });
+  }
+  return out;
+}
+
+function DrawMatches({ players, presentIds, matchesForDate, date, onAdd, nameOf }: any) {
   const presentPlayers = players.filter((p:any) => presentIds.includes(p.id));
   const canDraw = presentPlayers.length >= 4;
+  const [rounds, setRounds] = useState(3);
+  const [courts, setCourts] = useState(2);
+  const [preview, setPreview] = useState<DrawRound[] | null>(null);
 
   const draw = () => {
     if (!canDraw) return;
-    const getScore = (pid: string) => {
-        let s = 0; let mC = 0;
-        matchesForDate.forEach((m:any) => {
-            if(!m.winner) return;
-            const inA = m.teamA.includes(pid); const inB = m.teamB.includes(pid);
-            if(!inA && !inB) return;
-            mC++;
-            if((m.winner==="A"&&inA)||(m.winner==="B"&&inB)) s++;
-        });
-        return { id: pid, score: s, matches: mC };
-    };
-    const sorted = presentPlayers.map((p:any) => p.id).map(getScore).sort((a:any,b:any) => (b.score - a.score) || (b.matches - a.matches));
-    
-    // Simple pairing
-    const newMatches: Match[] = [];
-    const pool = sorted.map((s:any) => s.id);
-    const teams: Pair[] = [];
-    while(pool.length >= 2) { teams.push([pool[0], pool[pool.length-1]]); pool.shift(); pool.pop(); }
-    while(teams.length >= 2) { newMatches.push({ id: uid(), date, teamA: teams[0], teamB: teams[1] }); teams.shift(); teams.shift(); }
-    write({ matches: [...league.matches, ...newMatches] });
+    setPreview(
+      scheduleRounds({
+        playerIds: presentPlayers.map((p: any) => p.id),
+        rounds,
+        courts,
+        date,
+        history: matchesForDate,
+      })
+    );
   };
 
+  const confirm = () => {
+    if (!preview) return;
+    onAdd(preview.flatMap((r) => r.matches));
+    setPreview(null);
+  };
+
+  const stepper = (label: string, value: number, set: (n: number) => void, min: number, max: number) => (
+    <div className="flex-1">
+      <label className="text-[10px] uppercase font-bold text-slate-400">{label}</label>
+      <div className="flex items-center gap-2 mt-1">
+        <button type="button" className={`${btnSecondary} px-2 py-1`} disabled={value <= min} onClick={() => { set(value - 1); setPreview(null); }}>−</button>
+        <span className="w-6 text-center font-bold text-slate-700">{value}</span>
+        <button type="button" className={`${btnSecondary} px-2 py-1`} disabled={value >= max} onClick={() => { set(value + 1); setPreview(null); }}>+</button>
+      </div>
+    </div>
+  );
+
   return (
     <div className={cardContainer}>
         <BrandStripe />
         <div className={cardContent}>
             <div className="flex items-center justify-between mb-2">
                 <h3 className="font-bold text-slate-800">Auto Draw</h3>
-                <span className="text-xs font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded">3 Rounds</span>
+                <span className="text-xs font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded">{rounds} Rounds</span>
+            </div>
+            <p className="text-xs text-slate-500 mb-4">Rotate partners, opponents and sit-outs across the session.</p>
+            <div className="flex gap-4 mb-4">
+                {stepper("Rounds", rounds, setRounds, 1, 10)}
+                {stepper("Courts", courts, setCourts, 1, 8)}
+            </div>
+            {!preview ? (
+                <button onClick={draw} disabled={!canDraw} className={`${btnPrimary} w-full`}>
+                    Generate Matches
+                </button>
+            ) : (
+                <div className="space-y-3">
+                    <div className="max-h-72 overflow-y-auto pr-1 space-y-3">
+                        {preview.map((r, i) => (
+                            <div key={i} className="border border-slate-100 rounded-lg p-2 bg-slate-50/50">
+                                <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">Round {i + 1}</div>
+                                {r.matches.map((m, c) => (
+                                    <div key={m.id} className="text-xs text-slate-700 flex gap-2">
+                                        <span className="text-slate-400 w-12">Court {c + 1}</span>
+                                        <span className="font-semibold">{formatTeam(m.teamA, nameOf)}</span>
+                                        <span className="text-slate-400">vs</span>
+                                        <span className="font-semibold">{formatTeam(m.teamB, nameOf)}</span>
+                                    </div>
+                                ))}
+                                {r.sitOut.length > 0 && (
+                                    <div className="text-[11px] text-amber-600 mt-1">Sitting out: {r.sitOut.map(nameOf).join(", ")}</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => setPreview(null)} className={`${btnSecondary} flex-1`}>Cancel</button>
+                        <button type="button" onClick={draw} className={`${btnSecondary} flex-1`}>Reshuffle</button>
+                        <button type="button" onClick={confirm} disabled={!preview.length} className={`${btnPrimary} flex-1`}>Add {preview.reduce((n, r) => n + r.matches.length, 0)} Matches</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+}
+
+// ========================= Court Board =========================
+type MatchStatus = "queued" | "playing" | "finished";
+const matchStatus = (m: Match): MatchStatus => (m.winner ? "finished" : m.court ? "playing" : "queued");
+
+/**
+ * Szabad pályákra felteszi a sorban következő meccseket (tömb-sorrendben),
+ * de csak olyat, amelyben senki sem játszik épp másik pályán.
+ */
+function fillCourts(dayMatches: Match[], courts: number, now: string, skip?: ReadonlySet<string>): Match[] {
+  const occupied = new Set<number>();
+  const busy = new Set<string>();
+  dayMatches.forEach((m) => {
+    if (matchStatus(m) !== "playing") return;
+    occupied.add(m.court!);
+    [...m.teamA, ...m.teamB].filter(Boolean).forEach((id) => busy.add(id));
+  });
+  return dayMatches.map((m) => {
+    if (matchStatus(m) !== "queued" || skip?.has(m.id)) return m;
+    let free = 0;
+    for (let c = 1; c <= courts; c++) if (!occupied.has(c)) { free = c; break; }
+    if (!free) return m;
+    const ids = [...m.teamA, ...m.teamB].filter(Boolean);
+    if (ids.some((id) => busy.has(id))) return m;
+    occupied.add(free);
+    ids.forEach((id) => busy.add(id));
+    return { ...m, court: free, startedAt: now };
+  });
+}
+
+const formatElapsed = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const mm = Math.floor(total / 60);
+  const ss = String(total % 60).padStart(2, "0");
+  return `${mm}:${ss}`;
+};
+
+function CourtBoard({ matches, courts, nameOf, isAdmin, onCourtsChange, onPick, onRequeue }: {
+  matches: Match[];
+  courts: number;
+  nameOf: (id: string) => string;
+  isAdmin?: boolean;
+  onCourtsChange?: (n: number) => void;
+  onPick?: (id: string, w: "A" | "B") => void;
+  onRequeue?: (id: string) => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  const playing = matches.filter((m) => matchStatus(m) === "playing");
+  const queued = matches.filter((m) => matchStatus(m) === "queued");
+  const finished = matches.filter((m) => matchStatus(m) === "finished");
+  const onCourt = (c: number) => playing.find((m) => m.court === c);
+  const courtNumbers = Array.from(
+    new Set([...Array.from({ length: courts }, (_, i) => i + 1), ...playing.map((m) => m.court!)])
+  ).sort((a, b) => a - b);
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-bold text-slate-800">Court Board</h3>
+            <p className="text-xs text-slate-500">
+              {playing.length} on court • {queued.length} queued • {finished.length} finished
+            </p>
+          </div>
+          {isAdmin && onCourtsChange && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] uppercase font-bold text-slate-400">Courts</span>
+              <button type="button" className={`${btnSecondary} px-2 py-1`} disabled={courts <= 0} onClick={() => onCourtsChange(courts - 1)}>−</button>
+              <span className="w-5 text-center font-bold text-slate-700">{courts}</span>
+              <button type="button" className={`${btnSecondary} px-2 py-1`} disabled={courts >= 8} onClick={() => onCourtsChange(courts + 1)}>+</button>
             </div>
-            <p className="text-xs text-slate-500 mb-4">Generate matches based on today's performance.</p>
-            <button onClick={draw} disabled={!canDraw} className={`${btnPrimary} w-full`}>
-                Generate Matches
+          )}
+        </div>
+
+        {courtNumbers.length === 0 ? (
+          <p className="text-sm text-slate-400">{isAdmin ? "Set the number of courts to start the board." : "No courts set up for this session."}</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+            {courtNumbers.map((c) => {
+              const m = onCourt(c);
+              return (
+                <div key={c} className={`rounded-xl border p-3 ${m ? "bg-[#f0fdf4] border-[#84cc16]" : "bg-slate-50 border-slate-100"}`}>
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-[10px] uppercase font-bold text-slate-400">Court {c}{c > courts ? " (closing)" : ""}</span>
+                    {m?.startedAt && (
+                      <span className="text-xs font-mono font-bold text-slate-600">{formatElapsed(now - Date.parse(m.startedAt))}</span>
+                    )}
+                  </div>
+                  {m ? (
+                    <>
+                      <div className="text-sm font-bold text-slate-700">{formatTeam(m.teamA, nameOf)}</div>
+                      <div className="text-[10px] text-slate-400">vs</div>
+                      <div className="text-sm font-bold text-slate-700">{formatTeam(m.teamB, nameOf)}</div>
+                      {isAdmin && (
+                        <div className="flex gap-2 mt-2">
+                          <button onClick={() => onPick?.(m.id, "A")} className="flex-1 py-1 text-xs rounded font-bold bg-white border hover:bg-slate-50">A Wins</button>
+                          <button onClick={() => onPick?.(m.id, "B")} className="flex-1 py-1 text-xs rounded font-bold bg-white border hover:bg-slate-50">B Wins</button>
+                          <button onClick={() => onRequeue?.(m.id)} title="Back to queue" className="px-2 bg-slate-200 rounded text-xs hover:bg-slate-300 transition">↩</button>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-sm text-slate-400 italic">Free</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {queued.length > 0 && (
+          <div>
+            <h4 className="text-[10px] uppercase font-bold text-slate-400 mb-2">Queue</h4>
+            <ol className="space-y-1">
+              {queued.map((m, i) => (
+                <li key={m.id} className="text-xs text-slate-600 flex gap-2">
+                  <span className="text-slate-400 w-4">{i + 1}.</span>
+                  <span>{formatTeam(m.teamA, nameOf)} <span className="text-slate-400">vs</span> {formatTeam(m.teamB, nameOf)}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {finished.some((m) => m.startedAt && m.finishedAt) && (
+          <div className="mt-4">
+            <h4 className="text-[10px] uppercase font-bold text-slate-400 mb-2">Finished</h4>
+            <ul className="space-y-1">
+              {finished.filter((m) => m.startedAt && m.finishedAt).map((m) => (
+                <li key={m.id} className="text-xs text-slate-500 flex justify-between gap-2">
+                  <span>{formatTeam(m.teamA, nameOf)} <span className="text-slate-400">vs</span> {formatTeam(m.teamB, nameOf)}</span>
+                  <span className="font-mono">{formatElapsed(Date.parse(m.finishedAt!) - Date.parse(m.startedAt!))}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ScoreEditor({ match, onSave, onCancel }: { match: Match; onSave: (scores: GameScore[]) => void; onCancel: () => void }) {
+  const initial = match.scores ?? [];
+  const [bestOf, setBestOf] = useState<1 | 3>(initial.length > 1 ? 3 : 1);
+  const [rows, setRows] = useState<{ a: string; b: string }[]>(() =>
+    [0, 1, 2].map((i) => ({ a: initial[i] ? String(initial[i].a) : "", b: initial[i] ? String(initial[i].b) : "" }))
+  );
+
+  const scores: GameScore[] = rows
+    .slice(0, bestOf)
+    .filter((r) => r.a !== "" || r.b !== "")
+    .map((r) => ({ a: Number(r.a), b: Number(r.b) }));
+  const error = scores.length ? validateScores(scores, bestOf) : null;
+  const winner = matchWinnerFromScores(scores, bestOf);
+
+  const setCell = (i: number, side: "a" | "b", v: string) =>
+    setRows((prev) => prev.map((r, j) => (j === i ? { ...r, [side]: v.replace(/[^0-9]/g, "").slice(0, 2) } : r)));
+
+  return (
+    <div className="mt-2 p-2 rounded-lg border border-slate-200 bg-white space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] uppercase font-bold text-slate-400">Score</span>
+        <div className="flex p-0.5 rounded-md border border-slate-200 bg-slate-50">
+          {([1, 3] as const).map((n) => (
+            <button
+              key={n}
+              type="button"
+              onClick={() => setBestOf(n)}
+              className={`px-2 py-0.5 text-[10px] font-bold rounded ${bestOf === n ? "bg-white text-slate-800 shadow-sm" : "text-slate-500"}`}
+            >
+              Best of {n}
             </button>
+          ))}
+        </div>
+      </div>
+      {rows.slice(0, bestOf).map((r, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs">
+          <span className="w-12 text-slate-400 font-bold">Game {i + 1}</span>
+          <input className={`${input} py-1 text-center`} inputMode="numeric" placeholder="A" value={r.a} onChange={(e) => setCell(i, "a", e.target.value)} />
+          <span className="text-slate-400">–</span>
+          <input className={`${input} py-1 text-center`} inputMode="numeric" placeholder="B" value={r.b} onChange={(e) => setCell(i, "b", e.target.value)} />
         </div>
+      ))}
+      {error && <p className="text-[11px] text-rose-500 font-medium">{error}</p>}
+      {winner && <p className="text-[11px] text-emerald-700 font-bold">Winner: Team {winner}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className={`${btnSecondary} flex-1 py-1 text-xs`}>Cancel</button>
+        <button type="button" disabled={!winner} onClick={() => onSave(scores)} className={`${btnPrimary} flex-1 py-1 text-xs`}>Save Score</button>
+      </div>
     </div>
   );
 }
 
-function MatchesList({ matches, nameOf, onPick, onDelete, onClear, isAdmin }: any) {
+function MatchesList({ matches, nameOf, onPick, onScore, onDelete, onClear, isAdmin }: any) {
+    const [editingId, setEditingId] = useState<string | null>(null);
     return (
         <div className={cardContainer}>
             <BrandStripe />
@@ -1030,17 +4500,25 @@ function MatchesList({ matches, nameOf, onPick, onDelete, onClear, isAdmin }: an
                             <div key={m.id} className="border border-slate-100 rounded-xl p-3 bg-slate-50/30">
                                 <div className="flex justify-between items-center text-sm mb-2">
                                     <span className={`font-bold ${m.winner==='A'?'text-[#84cc16]':'text-slate-700'}`}>{formatTeam(m.teamA, nameOf)}</span>
-                                    <span className="text-xs text-slate-400">vs</span>
+                                    <span className="text-xs text-slate-400">{m.scores?.length ? formatScores(m.scores) : "vs"}</span>
                                     <span className={`font-bold ${m.winner==='B'?'text-[#84cc16]':'text-slate-700'}`}>{formatTeam(m.teamB, nameOf)}</span>
                                 </div>
                                 {isAdmin && (
                                     <div className="flex gap-2 mt-2">
                                         <button onClick={() => onPick(m.id, 'A')} className={`flex-1 py-1 text-xs rounded font-bold ${m.winner==='A'?'bg-[#84cc16] text-white':'bg-white border hover:bg-slate-50'}`}>A Wins</button>
                                         <button onClick={() => onPick(m.id, 'B')} className={`flex-1 py-1 text-xs rounded font-bold ${m.winner==='B'?'bg-[#84cc16] text-white':'bg-white border hover:bg-slate-50'}`}>B Wins</button>
+                                        <button onClick={() => setEditingId(editingId === m.id ? null : m.id)} className="px-2 bg-white border rounded text-xs font-bold hover:bg-slate-50 transition">Score</button>
                                         {m.winner && <button onClick={() => onClear(m.id)} className="px-2 bg-slate-200 rounded text-xs hover:bg-slate-300 transition">↺</button>}
                                         <button onClick={() => onDelete(m.id)} className="px-2 text-rose-500 font-bold hover:text-rose-700 transition">✕</button>
                                     </div>
                                 )}
+                                {isAdmin && editingId === m.id && (
+                                    <ScoreEditor
+                                        match={m}
+                                        onCancel={() => setEditingId(null)}
+                                        onSave={(scores) => { onScore(m.id, scores); setEditingId(null); }}
+                                    />
+                                )}
                             </div>
                         ))}
                     </div>
@@ -1094,7 +4572,7 @@ function MatchesPlayer({ grouped, nameOf }: any) {
 
                                             {/* VS */}
                                             <div className="px-3 py-1 bg-slate-50 rounded text-[10px] font-bold text-slate-400 uppercase tracking-widest">
-                                                {played ? "Finished" : "VS"}
+                                                {m.scores?.length ? formatScores(m.scores) : played ? "Finished" : "VS"}
                                             </div>
 
                                             {/* TEAM B */}
@@ -1116,10 +4594,78 @@ function MatchesPlayer({ grouped, nameOf }: any) {
     )
 }
 
-function Standings({ rows, matchFilter, onMatchFilterChange, showMatchFilterToggle }: any) {
+// ▲/▼ az előző edzéshez képest
+function RankMove({ move }: { move: number | null }) {
+  if (!move) return null;
+  return (
+    <span className={`ml-1 text-[10px] font-black ${move > 0 ? "text-emerald-500" : "text-rose-400"}`} title="Since the previous session">
+      {move > 0 ? `▲${move}` : `▼${-move}`}
+    </span>
+  );
+}
+
+// helyezés (felül az 1.) és pontok edzésnaponként, közös x-tengellyel.
+// A még kvalifikálók "Q" helyezése külön számozás, ezért a helyezés-görbén csak a hivatalos helyezés látszik.
+function StandingsHistoryChart({ points }: { points: StandingPoint[] }) {
+  if (points.length < 2) {
+    return <p className="text-xs text-slate-400">Play on at least two dates to see the standings history.</p>;
+  }
+  const W = 280, H = 70, PAD = 6;
+  const x = (i: number) => PAD + (i / (points.length - 1)) * (W - 2 * PAD);
+  const all = points.map((p, i) => ({ p, i }));
+  const ranked = all.filter(({ p }) => p.qualified);
+  const maxRank = Math.max(...ranked.map(({ p }) => p.rank), 2);
+  const maxPts = Math.max(...points.map((p) => p.totalPoints), 1);
+  const yRank = (r: number) => PAD + ((r - 1) / (maxRank - 1)) * (H - 2 * PAD);
+  const yPts = (v: number) => H - PAD - (v / maxPts) * (H - 2 * PAD);
+  const series = [
+    { label: "Rank", color: "#0d9488", items: ranked, y: (p: StandingPoint) => yRank(p.rank), text: (p: StandingPoint) => (p.qualified ? `#${p.rank}` : "Qualifying") },
+    { label: "Points", color: "#84cc16", items: all, y: (p: StandingPoint) => yPts(p.totalPoints), text: (p: StandingPoint) => `${p.totalPoints} pts` },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {series.map((s) => (
+        <div key={s.label}>
+          <div className="flex justify-between text-[10px] font-bold uppercase text-slate-400">
+            <span>{s.label}</span>
+            <span style={{ color: s.color }}>{s.text(points[points.length - 1])}</span>
+          </div>
+          {s.items.length ? (
+            <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-16">
+              <polyline
+                points={s.items.map(({ p, i }) => `${x(i).toFixed(1)},${s.y(p).toFixed(1)}`).join(" ")}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                strokeLinejoin="round"
+              />
+              {s.items.map(({ p, i }) => (
+                // még kvalifikáló napok: üres karika
+                <circle key={p.date} cx={x(i)} cy={s.y(p)} r={2.5} fill={p.qualified ? s.color : "#fff"} stroke={s.color}>
+                  <title>{`${p.date}: ${s.text(p)}`}</title>
+                </circle>
+              ))}
+            </svg>
+          ) : (
+            <p className="h-16 flex items-center justify-center text-xs text-slate-400">No official rank until qualified.</p>
+          )}
+        </div>
+      ))}
+      <div className="flex justify-between text-[10px] text-slate-400">
+        <span>{points[0].date}</span>
+        <span>{points[points.length - 1].date}</span>
+      </div>
+    </div>
+  );
+}
+
+function Standings({ rows, history, search = "", matchFilter, onMatchFilterChange, showMatchFilterToggle, periodLabel }: any) {
   const [tab, setTab] = useState<"All" | "Women" | "Men">("All");
+  const [chartId, setChartId] = useState<string | null>(null);
+  const chartRow = rows.find((r: StandingRow) => r.id === chartId);
 
-  type SortKey = "totalPoints" | "winRate" | "matches";
+  type SortKey = "totalPoints" | "rating" | "winRate" | "matches" | "pointDiff";
   const [sortKey, setSortKey] = useState<SortKey>("totalPoints");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
 
@@ -1143,18 +4689,27 @@ function Standings({ rows, matchFilter, onMatchFilterChange, showMatchFilterTogg
       const targetGender = tab === "Men" ? "M" : "F";
       filtered = rows.filter((r: any) => r.gender === targetGender);
     }
+    // keresés a valódi névre és a becenévre
+    filtered = filtered.filter((r: StandingRow) => playerMatchesQuery(r, search));
 
+    // pontok szerint a hivatalos sorrend (döntési szempontokkal) megy, és egyenlőségnél is az dönt
+    const official = new Map<string, number>(rows.map((r: StandingRow, i: number) => [r.id, i]));
     const sorted = [...filtered].sort((a: any, b: any) => {
+      const order = (official.get(a.id) ?? 0) - (official.get(b.id) ?? 0);
+      if (sortKey === "totalPoints") return sortDir === "asc" ? -order : order;
       const va = a[sortKey] ?? 0;
       const vb = b[sortKey] ?? 0;
 
       if (va < vb) return sortDir === "asc" ? -1 : 1;
       if (va > vb) return sortDir === "asc" ? 1 : -1;
-      return 0;
+      return order;
     });
 
     return sorted;
-  }, [rows, tab, sortKey, sortDir]);
+  }, [rows, tab, sortKey, sortDir, search]);
+  // a ranglista-nézetben vonal választja el a még kvalifikálókat
+  const firstQualifying =
+    sortKey === "totalPoints" && sortDir === "desc" ? filteredAndSortedRows.findIndex((r: StandingRow) => !r.qualified) : -1;
 
   const renderSortIcon = (key: SortKey) => {
     if (sortKey !== key) {
@@ -1177,7 +4732,10 @@ function Standings({ rows, matchFilter, onMatchFilterChange, showMatchFilterTogg
       <BrandStripe />
       <div className={cardContent}>
         <div className="flex flex-col sm:flex-row justify-between items-center mb-4 gap-3">
-          <h3 className="font-bold text-slate-800 text-lg">League Standings</h3>
+          <div>
+            <h3 className="font-bold text-slate-800 text-lg">League Standings</h3>
+            {periodLabel && <p className="text-xs text-slate-400 font-semibold">{periodLabel}</p>}
+          </div>
 
 {showMatchFilterToggle && (
   <div
@@ -1249,116 +4807,637 @@ function Standings({ rows, matchFilter, onMatchFilterChange, showMatchFilterTogg
           </div>
         </div>
 
-        <div className="overflow-x-auto">
-          <table className="w-full text-sm text-left">
-           <thead className="text-xs text-slate-400 uppercase bg-slate-50/50 border-b border-slate-100">
-  <tr>
-    <th className="px-4 py-3">Rank</th>
-    <th className="px-4 py-3">Player</th>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+           <thead className="text-xs text-slate-400 uppercase bg-slate-50/50 border-b border-slate-100">
+  <tr>
+    <th className="px-4 py-3">Rank</th>
+    <th className="px-4 py-3">Player</th>
+
+    {/* POINTS */}
+    <th className="px-4 py-3">
+      <button
+        type="button"
+        onClick={() => handleSort("totalPoints")}
+        className="
+          flex items-center gap-1 font-semibold text-slate-700
+          bg-slate-100 hover:bg-slate-200
+          px-3 py-1 rounded-md transition
+        "
+      >
+        Points
+        {renderSortIcon("totalPoints")}
+      </button>
+    </th>
+
+    {/* RATING */}
+    <th className="px-4 py-3">
+      <button
+        type="button"
+        onClick={() => handleSort("rating")}
+        className="
+          flex items-center gap-1 font-semibold text-slate-700
+          bg-slate-100 hover:bg-slate-200
+          px-3 py-1 rounded-md transition
+        "
+      >
+        Rating
+        {renderSortIcon("rating")}
+      </button>
+    </th>
+
+    {/* WIN % */}
+    <th className="px-4 py-3">
+      <button
+        type="button"
+        onClick={() => handleSort("winRate")}
+        className="
+          flex items-center gap-1 font-semibold text-slate-700
+          bg-slate-100 hover:bg-slate-200
+          px-3 py-1 rounded-md transition
+        "
+      >
+        Win %
+        {renderSortIcon("winRate")}
+      </button>
+    </th>
+
+    {/* MATCHES */}
+    <th className="px-4 py-3">
+      <button
+        type="button"
+        onClick={() => handleSort("matches")}
+        className="
+          flex items-center gap-1 font-semibold text-slate-700
+          bg-slate-100 hover:bg-slate-200
+          px-3 py-1 rounded-md transition
+        "
+      >
+        Matches
+        {renderSortIcon("matches")}
+      </button>
+    </th>
+
+    {/* GAMES */}
+    <th className="px-4 py-3">Games</th>
+
+    {/* POINT DIFFERENCE */}
+    <th className="px-4 py-3">
+      <button
+        type="button"
+        onClick={() => handleSort("pointDiff")}
+        className="
+          flex items-center gap-1 font-semibold text-slate-700
+          bg-slate-100 hover:bg-slate-200
+          px-3 py-1 rounded-md transition
+        "
+      >
+        +/-
+        {renderSortIcon("pointDiff")}
+      </button>
+    </th>
+  </tr>
+</thead>
+
+            <tbody className="divide-y divide-slate-50">
+              {filteredAndSortedRows.map((r: any, i: number) => (
+                <tr
+                  key={r.id}
+                  onClick={() => setChartId(chartId === r.id ? null : r.id)}
+                  className={`cursor-pointer hover:bg-slate-50/50 transition-colors ${
+                    !r.qualified ? "opacity-60" : ""
+                  } ${i > 0 && i === firstQualifying ? "border-t-2 border-dashed border-slate-200" : ""} ${
+                    chartId === r.id ? "bg-lime-50/60" : ""
+                  }`}
+                >
+                  <td
+                    className="px-4 py-3 font-bold text-slate-500 whitespace-nowrap"
+                    title={r.qualified ? "Official rank" : "Rank among players still qualifying"}
+                  >
+                    {r.qualified ? `#${r.rank}` : `Q${r.rank}`}
+                    <RankMove move={rankMovement(history?.get(r.id))} />
+                  </td>
+                  <td className="px-4 py-3 font-bold text-slate-700">
+                    {r.name}
+                    {r.nickname && <span className="ml-1 text-xs text-slate-400 font-normal">“{r.nickname}”</span>}
+                    {!r.qualified && (
+                      <span className="ml-2 text-[10px] text-rose-400 font-normal">
+                        (qualifying)
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 font-black text-slate-800">
+                    {r.totalPoints}
+                  </td>
+                  <td className="px-4 py-3 text-slate-700 font-bold whitespace-nowrap">
+                    {r.rating}
+                    <span className="ml-1 text-[10px] text-slate-400 font-normal">±{r.ratingRd}</span>
+                  </td>
+                  <td className="px-4 py-3 text-[#84cc16] font-bold">
+                    {r.winRate}%
+                  </td>
+                  <td className="px-4 py-3 text-slate-500">{r.matches}</td>
+                  <td className="px-4 py-3 text-slate-500 whitespace-nowrap">
+                    {r.gamesWon}–{r.gamesLost}
+                  </td>
+                  <td
+                    className={`px-4 py-3 font-bold ${
+                      r.pointDiff > 0 ? "text-emerald-600" : r.pointDiff < 0 ? "text-rose-500" : "text-slate-400"
+                    }`}
+                  >
+                    {r.pointDiff > 0 ? `+${r.pointDiff}` : r.pointDiff}
+                  </td>
+                </tr>
+              ))}
+              {filteredAndSortedRows.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={8}
+                    className="px-4 py-8 text-center text-slate-400 text-xs italic"
+                  >
+                    No players found in this category.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {chartRow && (
+          <div className="border-t border-slate-100 p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-bold text-slate-700">{chartRow.name} · by session</h4>
+              <button className="text-slate-400 hover:text-slate-600 text-xs" onClick={() => setChartId(null)}>✕</button>
+            </div>
+            <StandingsHistoryChart points={history?.get(chartRow.id) ?? []} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+
+// ========================= Seasons =========================
+function SeasonPicker({ seasons, value, onChange }: { seasons: Season[]; value: string; onChange: (id: string) => void }) {
+  if (!seasons.length) return null;
+  return (
+    <select
+      className="py-2 px-3 bg-white rounded-full border border-slate-200 text-sm font-bold text-slate-600 focus:outline-none focus:ring-2 focus:ring-[#84cc16] shadow-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {[...seasons]
+        .sort((a, b) => b.startDate.localeCompare(a.startDate))
+        .map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.name}{s.closedAt ? " (closed)" : ""}
+          </option>
+        ))}
+      <option value="all">All time</option>
+    </select>
+  );
+}
+
+type NumericSetting = Exclude<keyof LeagueSettings, "tieBreakers">;
+const SETTING_FIELDS: { key: NumericSetting; label: string; hint: string }[] = [
+  { key: "winPoints", label: "Win", hint: "points per match won" },
+  { key: "lossPoints", label: "Loss", hint: "points per match lost" },
+  { key: "gamePoints", label: "Game won", hint: "extra points per game won (only with scores)" },
+  { key: "bountyBonus", label: "Bounty bonus", hint: "extra points for beating a bounty player" },
+  { key: "minMatches", label: "Qualify after", hint: "matches needed to be ranked" },
+];
+
+const toDraft = (s: LeagueSettings) =>
+  Object.fromEntries(SETTING_FIELDS.map(({ key }) => [key, String(s[key])])) as Record<NumericSetting, string>;
+
+function LeagueSettingsCard({ settings, players, onSave, onToggleBounty }: {
+  settings: LeagueSettings;
+  players: Player[];
+  onSave: (s: LeagueSettings) => void;
+  onToggleBounty: (id: string, bounty: boolean) => void;
+}) {
+  const [draft, setDraft] = useState<Record<NumericSetting, string>>(() => toDraft(settings));
+  const [tieBreakers, setTieBreakers] = useState(settings.tieBreakers);
+  useEffect(() => {
+    setDraft(toDraft(settings));
+    setTieBreakers(settings.tieBreakers);
+  }, [settings]);
+  const [addBounty, setAddBounty] = useState("");
+
+  const parsed: LeagueSettings = { ...settings, tieBreakers };
+  SETTING_FIELDS.forEach(({ key }) => (parsed[key] = Number(draft[key])));
+  const invalid = SETTING_FIELDS.filter(({ key }) =>
+    draft[key].trim() === "" || !Number.isFinite(parsed[key]) || (key === "minMatches" && (!Number.isInteger(parsed[key]) || parsed[key] < 0))
+  );
+  const changed = SETTING_FIELDS.some(({ key }) => parsed[key] !== settings[key]) || tieBreakers.join() !== settings.tieBreakers.join();
+  const moveTieBreaker = (i: number, by: number) => {
+    const next = [...tieBreakers];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    setTieBreakers(next);
+  };
+  const bounties = players.filter((p) => p.bounty);
+  const others = players.filter((p) => !p.bounty && isActivePlayer(p));
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Scoring Rules</h3>
+        <p className="text-xs text-slate-500 mb-4">Standings (and new season results) are recomputed from these rules.</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          {SETTING_FIELDS.map(({ key, label, hint }) => (
+            <div key={key} title={hint}>
+              <label className="text-[10px] uppercase font-bold text-slate-400">{label}</label>
+              <input
+                className={`${input} py-1 text-sm ${invalid.some((f) => f.key === key) ? "border-rose-300" : ""}`}
+                type="number"
+                step={key === "minMatches" ? 1 : 0.5}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-3">
+          <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">Tie-breakers (on equal points)</div>
+          <ol className="space-y-1">
+            {tieBreakers.map((t, i) => (
+              <li key={t} className="flex items-center gap-2 text-xs bg-slate-50 rounded-lg px-2 py-1">
+                <span className="font-bold text-slate-400 w-4">{i + 1}.</span>
+                <span className="flex-1 text-slate-700">{TIE_BREAKERS[t]}</span>
+                <button className="text-slate-400 hover:text-slate-700 disabled:opacity-30" disabled={i === 0} onClick={() => moveTieBreaker(i, -1)}>▲</button>
+                <button className="text-slate-400 hover:text-slate-700 disabled:opacity-30" disabled={i === tieBreakers.length - 1} onClick={() => moveTieBreaker(i, 1)}>▼</button>
+                <button className="text-slate-400 hover:text-rose-600" onClick={() => setTieBreakers(tieBreakers.filter((x) => x !== t))}>✕</button>
+              </li>
+            ))}
+            <li className="flex items-center gap-2 text-xs px-2 py-1 text-slate-400">
+              <span className="w-4" />
+              <span className="flex-1">Name (order only – the rank stays shared)</span>
+            </li>
+          </ol>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {(Object.keys(TIE_BREAKERS) as TieBreaker[]).filter((t) => !tieBreakers.includes(t)).map((t) => (
+              <button key={t} className="text-[11px] rounded-full border border-slate-200 px-2 py-0.5 text-slate-500 hover:bg-slate-50" onClick={() => setTieBreakers([...tieBreakers, t])}>
+                + {TIE_BREAKERS[t]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2 mt-3">
+          <button className={`${btnSecondary} flex-1 text-xs`} onClick={() => { setDraft(toDraft(DEFAULT_SETTINGS)); setTieBreakers(DEFAULT_SETTINGS.tieBreakers); }}>Defaults</button>
+          <button className={`${btnPrimary} flex-1 text-xs`} disabled={!changed || invalid.length > 0} onClick={() => onSave(parsed)}>Save rules</button>
+        </div>
+
+        <div className="border-t border-slate-100 mt-4 pt-3">
+          <div className="text-xs font-bold text-slate-400 uppercase mb-2">Bounty players</div>
+          {bounties.length === 0 && <p className="text-xs text-slate-400 italic mb-2">No bounty players.</p>}
+          <div className="flex flex-wrap gap-1 mb-2">
+            {bounties.map((p) => (
+              <span key={p.id} className="inline-flex items-center gap-1 bg-rose-50 text-rose-700 text-xs font-bold rounded-full px-2 py-1">
+                🎯 {p.name}
+                <button className="text-rose-400 hover:text-rose-700" onClick={() => onToggleBounty(p.id, false)} title="Remove bounty">✕</button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <select className={`${input} py-1 text-xs`} value={addBounty} onChange={(e) => setAddBounty(e.target.value)}>
+              <option value="">Choose player…</option>
+              {others.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button className={`${btnSecondary} py-1 px-2 text-xs`} disabled={!addBounty} onClick={() => { onToggleBounty(addBounty, true); setAddBounty(""); }}>Add</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const defaultCondition = (type: BadgeCondition["type"]): BadgeCondition =>
+  type === "beatBounty" ? { type } : type === "winRate" ? { type, min: 60, minMatches: 10 } : { type, min: 5 };
+
+function BadgesCard({ badges, onSave }: { badges: BadgeDef[]; onSave: (badges: BadgeDef[]) => void }) {
+  const [editing, setEditing] = useState<BadgeDef | null>(null);
+  const [showIcons, setShowIcons] = useState(false);
+  const [error, setError] = useState("");
+
+  const startEdit = (b: BadgeDef | null) => {
+    setEditing(b ?? { id: uid(), title: "", description: "", icon: "⭐", ...BADGE_STYLES[0], condition: defaultCondition("wins") });
+    setShowIcons(false);
+    setError("");
+  };
+  // az automatikus leírás követi a feltételt, a kézzel írtat nem írjuk felül
+  const setCondition = (condition: BadgeCondition) => {
+    if (!editing) return;
+    const auto = !editing.description || editing.description === describeCondition(editing.condition);
+    setEditing({ ...editing, condition, description: auto ? describeCondition(condition) : editing.description });
+  };
+  const save = () => {
+    const badge = parseBadge(editing);
+    if (!badge) return setError("Give the badge a title and valid thresholds.");
+    onSave(badges.some((b) => b.id === badge.id) ? badges.map((b) => (b.id === badge.id ? badge : b)) : [...badges, badge]);
+    setEditing(null);
+  };
+  const toggleRetired = (b: BadgeDef) =>
+    onSave(badges.map((x) => (x.id === b.id ? (b.retired ? { ...x, retired: undefined } : { ...x, retired: true }) : x)));
+  const c = editing?.condition;
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-bold text-slate-800">Badges</h3>
+          {!editing && <button className={`${btnSecondary} py-1 px-2 text-xs`} onClick={() => startEdit(null)}>+ New badge</button>}
+        </div>
+
+        {editing && c ? (
+          <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 space-y-2">
+            <div className="flex gap-2">
+              <button className="text-2xl bg-white rounded-lg w-12 h-10 border border-slate-200 shrink-0" onClick={() => setShowIcons(!showIcons)}>{editing.icon}</button>
+              <input className={`${input} py-1 text-sm`} placeholder="Title" value={editing.title} onChange={(e) => setEditing({ ...editing, title: e.target.value })} />
+            </div>
+            {showIcons && <EmojiPicker value={editing.icon} onPick={(icon) => { setEditing({ ...editing, icon }); setShowIcons(false); }} />}
+            <input className={`${input} py-1 text-sm`} placeholder={describeCondition(c)} value={editing.description} onChange={(e) => setEditing({ ...editing, description: e.target.value })} />
+            <select className={`${input} py-1 text-sm`} value={c.type} onChange={(e) => setCondition(defaultCondition(e.target.value as BadgeCondition["type"]))}>
+              {Object.entries(BADGE_CONDITION_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+            </select>
+            {c.type !== "beatBounty" && (
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="text-[10px] uppercase font-bold text-slate-400">{c.type === "winRate" ? "Win rate %" : "N"}</label>
+                  <input className={`${input} py-1 text-sm`} type="number" min={0} value={c.min} onChange={(e) => setCondition({ ...c, min: Number(e.target.value) })} />
+                </div>
+                {c.type === "winRate" && (
+                  <div className="flex-1">
+                    <label className="text-[10px] uppercase font-bold text-slate-400">Min. matches</label>
+                    <input className={`${input} py-1 text-sm`} type="number" min={0} value={c.minMatches} onChange={(e) => setCondition({ ...c, minMatches: Number(e.target.value) })} />
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex gap-1">
+              {BADGE_STYLES.map((st) => (
+                <button key={st.accent} onClick={() => setEditing({ ...editing, ...st })} className={`w-7 h-7 rounded-lg border-2 ${st.bg} ${st.accent} ${editing.accent === st.accent ? "border-slate-500" : "border-transparent"}`}>
+                  {editing.icon}
+                </button>
+              ))}
+            </div>
+            {error && <div className="text-xs text-rose-600">{error}</div>}
+            <div className="flex gap-2">
+              <button className={`${btnSecondary} flex-1 text-xs`} onClick={() => setEditing(null)}>Cancel</button>
+              <button className={`${btnPrimary} flex-1 text-xs`} onClick={save}>Save badge</button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {badges.map((b) => (
+              <div key={b.id} className={`flex items-center gap-2 p-2 rounded-lg ${b.bg} ${b.retired ? "opacity-50" : ""}`}>
+                <span className="text-lg">{b.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className={`text-xs font-bold ${b.accent}`}>{b.title}{b.retired ? " (retired)" : ""}</div>
+                  <div className="text-[10px] text-slate-500 truncate">{b.description}</div>
+                </div>
+                <button className="text-[10px] font-bold text-slate-400 hover:text-slate-700" onClick={() => startEdit(b)}>Edit</button>
+                <button className="text-[10px] font-bold text-slate-400 hover:text-slate-700" onClick={() => toggleRetired(b)}>{b.retired ? "Restore" : "Retire"}</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SeasonsCard({ seasons, today, onCreate, onClose }: {
+  seasons: Season[];
+  today: string;
+  onCreate: (s: Omit<Season, "id">) => string | null;
+  onClose: (id: string, next: { name: string; endDate: string }) => string | null;
+}) {
+  const current = currentSeason(seasons, today);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(addDays(today, 120));
+  const [error, setError] = useState("");
+  const [confirmClose, setConfirmClose] = useState(false);
+
+  const submitCreate = () => {
+    const err = onCreate({ name: name.trim(), startDate, endDate });
+    setError(err ?? "");
+    if (!err) setName("");
+  };
+  const submitClose = () => {
+    if (!current) return;
+    const err = onClose(current.id, { name: name.trim(), endDate });
+    setError(err ?? "");
+    if (!err) { setName(""); setConfirmClose(false); }
+  };
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-1">Seasons</h3>
+        {current ? (
+          <p className="text-xs text-slate-500 mb-4">
+            Current: <b>{current.name}</b> ({current.startDate} → {current.endDate})
+          </p>
+        ) : (
+          <p className="text-xs text-slate-500 mb-4">No open season. Standings are all-time until you create one.</p>
+        )}
+
+        <div className="space-y-2">
+          <input className={input} placeholder={current ? "Next season name..." : "Season name..."} value={name} onChange={(e) => setName(e.target.value)} />
+          <div className="flex gap-2">
+            {!current && (
+              <div className="flex-1">
+                <label className="text-[10px] uppercase font-bold text-slate-400">Start</label>
+                <input className={`${input} py-1 text-sm`} type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+            )}
+            <div className="flex-1">
+              <label className="text-[10px] uppercase font-bold text-slate-400">{current ? "Next season ends" : "End"}</label>
+              <input className={`${input} py-1 text-sm`} type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          {!current ? (
+            <button className={`${btnPrimary} w-full`} disabled={!name.trim()} onClick={submitCreate}>Create Season</button>
+          ) : !confirmClose ? (
+            <button className={`${btnDanger} w-full`} disabled={!name.trim()} onClick={() => setConfirmClose(true)}>Close “{current.name}” & start next</button>
+          ) : (
+            <div className="flex gap-2">
+              <button className={`${btnSecondary} flex-1`} onClick={() => setConfirmClose(false)}>Cancel</button>
+              <button className={`${btnDanger} flex-1`} onClick={submitClose}>Freeze standings</button>
+            </div>
+          )}
+          {error && <p className="text-xs text-rose-600 font-semibold">{error}</p>}
+        </div>
+
+        {seasons.length > 0 && (
+          <ul className="mt-4 space-y-1 max-h-40 overflow-y-auto pr-1">
+            {[...seasons].sort((a, b) => b.startDate.localeCompare(a.startDate)).map((s) => (
+              <li key={s.id} className="text-xs flex justify-between text-slate-600">
+                <span className="font-semibold">{s.name}</span>
+                <span className="text-slate-400">{s.startDate} → {s.endDate}{s.closedAt ? " • closed" : ""}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
 
-    {/* POINTS */}
-    <th className="px-4 py-3">
-      <button
-        type="button"
-        onClick={() => handleSort("totalPoints")}
-        className="
-          flex items-center gap-1 font-semibold text-slate-700
-          bg-slate-100 hover:bg-slate-200
-          px-3 py-1 rounded-md transition
-        "
-      >
-        Points
-        {renderSortIcon("totalPoints")}
-      </button>
-    </th>
+function SeasonArchive({ seasons }: { seasons: Season[] }) {
+  const closed = useMemo(
+    () => seasons.filter((s) => s.closedAt && s.finalStandings).sort((a, b) => b.startDate.localeCompare(a.startDate)),
+    [seasons]
+  );
+  const [openId, setOpenId] = useState<string | null>(null);
+  if (!closed.length) return null;
+  const shown = closed.find((s) => s.id === openId) ?? closed[0];
 
-    {/* WIN % */}
-    <th className="px-4 py-3">
-      <button
-        type="button"
-        onClick={() => handleSort("winRate")}
-        className="
-          flex items-center gap-1 font-semibold text-slate-700
-          bg-slate-100 hover:bg-slate-200
-          px-3 py-1 rounded-md transition
-        "
-      >
-        Win %
-        {renderSortIcon("winRate")}
-      </button>
-    </th>
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <div className="flex items-center justify-between mb-3 gap-2">
+          <h3 className="font-bold text-slate-800">Season Archive</h3>
+          <select className={`${input} w-auto py-1 text-sm`} value={shown.id} onChange={(e) => setOpenId(e.target.value)}>
+            {closed.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </div>
+        <p className="text-[11px] text-slate-400 mb-2">{shown.startDate} → {shown.endDate}</p>
+        <table className="w-full text-xs text-left">
+          <thead className="text-slate-400 uppercase border-b border-slate-100">
+            <tr>
+              <th className="py-2 pr-2">#</th>
+              <th className="py-2 pr-2">Player</th>
+              <th className="py-2 pr-2">Pts</th>
+              <th className="py-2 pr-2">W/M</th>
+              <th className="py-2">Rating</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {(shown.finalStandings ?? []).map((r, i) => (
+              <tr key={r.id} className={r.qualified ? "" : "opacity-60"}>
+                <td className="py-1.5 pr-2 font-bold text-slate-500">{r.rank === undefined ? i + 1 : r.qualified ? r.rank : `Q${r.rank}`}</td>
+                <td className="py-1.5 pr-2 font-semibold text-slate-700">{r.name}</td>
+                <td className="py-1.5 pr-2 font-black text-slate-800">{r.totalPoints}</td>
+                <td className="py-1.5 pr-2 text-slate-500">{r.wins}/{r.matches}</td>
+                <td className="py-1.5 text-slate-500">{r.rating}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
 
-    {/* MATCHES */}
-    <th className="px-4 py-3">
-      <button
-        type="button"
-        onClick={() => handleSort("matches")}
-        className="
-          flex items-center gap-1 font-semibold text-slate-700
-          bg-slate-100 hover:bg-slate-200
-          px-3 py-1 rounded-md transition
-        "
-      >
-        Matches
-        {renderSortIcon("matches")}
-      </button>
-    </th>
-  </tr>
-</thead>
+function RatingChart({ points }: { points: RatingPoint[] }) {
+  if (points.length < 2) {
+    return <p className="text-xs text-slate-400">Play on at least two dates to see the rating history.</p>;
+  }
+  const W = 280, H = 90, PAD = 6;
+  const values = points.map((p) => p.rating);
+  const min = Math.min(...values) - 10;
+  const max = Math.max(...values) + 10;
+  const x = (i: number) => PAD + (i / (points.length - 1)) * (W - 2 * PAD);
+  const y = (v: number) => H - PAD - ((v - min) / (max - min)) * (H - 2 * PAD);
+  const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.rating).toFixed(1)}`).join(" ");
+  const last = points[points.length - 1];
 
-            <tbody className="divide-y divide-slate-50">
-              {filteredAndSortedRows.map((r: any, i: number) => (
-                <tr
-                  key={r.id}
-                  className={`hover:bg-slate-50/50 transition-colors ${
-                    !r.qualified ? "opacity-60" : ""
-                  }`}
-                >
-                  <td className="px-4 py-3 font-bold text-slate-500">#{i + 1}</td>
-                  <td className="px-4 py-3 font-bold text-slate-700">
-                    {r.name}
-                    {!r.qualified && (
-                      <span className="ml-2 text-[10px] text-rose-400 font-normal">
-                        (qualifying)
-                      </span>
-                    )}
-                  </td>
-                  <td className="px-4 py-3 font-black text-slate-800">
-                    {r.totalPoints}
-                  </td>
-                  <td className="px-4 py-3 text-[#84cc16] font-bold">
-                    {r.winRate}%
-                  </td>
-                  <td className="px-4 py-3 text-slate-500">{r.matches}</td>
-                </tr>
-              ))}
-              {filteredAndSortedRows.length === 0 && (
-                <tr>
-                  <td
-                    colSpan={5}
-                    className="px-4 py-8 text-center text-slate-400 text-xs italic"
-                  >
-                    No players found in this category.
-                  </td>
-                </tr>
-              )}
-            </tbody>
-          </table>
-        </div>
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-24">
+        <line x1={PAD} x2={W - PAD} y1={y(RATING_START)} y2={y(RATING_START)} stroke="#e2e8f0" strokeDasharray="4 3" />
+        <polyline points={line} fill="none" stroke="#84cc16" strokeWidth={2} strokeLinejoin="round" />
+        {points.map((p, i) => (
+          <circle key={p.date} cx={x(i)} cy={y(p.rating)} r={2.5} fill="#0d9488">
+            <title>{`${p.date}: ${Math.round(p.rating)} ±${Math.round(p.rd)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-400">
+        <span>{points[0].date}</span>
+        <span>{last.date}</span>
       </div>
     </div>
   );
 }
 
+// ennyi legutóbbi edzésnap jelvényei kerülnek a hírfolyamba
+const RECENT_SESSIONS = 3;
+
+// a jelvényeket a teljes előzményen számoljuk (különben minden szezonban újra "újnak" látszanának),
+// csak a megjelenített edzésnapok jönnek a kiválasztott szezonból
+function RecentAchievementsCard({ players, matches, sessions, season, settings, badges }: {
+  players: Player[];
+  matches: Match[];
+  sessions: Record<string, SessionInfo>;
+  season?: Season;
+  settings?: LeagueSettings;
+  badges: BadgeDef[];
+}) {
+  const feed = useMemo(() => {
+    const played = matches.filter((m) => m.winner && (!season || inSeason(m.date, season)));
+    const dates = Array.from(new Set(played.map((m) => m.date))).sort().slice(-RECENT_SESSIONS);
+    if (!dates.length) return [];
+    const items = players.flatMap((player) =>
+      computeAchievementsFull(player.id, { matches, players, sessions, settings, badges })
+        .filter((badge) => badge.unlockedAt >= dates[0])
+        .map((badge) => ({ player, badge }))
+    );
+    items.sort((a, b) => b.badge.unlockedAt.localeCompare(a.badge.unlockedAt) || byRealName(a.player, b.player));
+    return dates.reverse().map((date) => ({ date, items: items.filter((x) => x.badge.unlockedAt === date) })).filter((g) => g.items.length);
+  }, [players, matches, sessions, season, settings, badges]);
+
+  if (!feed.length) return null;
+
+  return (
+    <div className={cardContainer}>
+      <BrandStripe />
+      <div className={cardContent}>
+        <h3 className="font-bold text-slate-800 mb-3">Recent Achievements</h3>
+        <div className="space-y-3">
+          {feed.map((g, i) => (
+            <div key={g.date}>
+              <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">
+                {g.date}{i === 0 && " · latest session"}
+              </div>
+              <div className="space-y-1">
+                {g.items.map(({ player, badge }) => (
+                  <div key={`${player.id}:${badge.id}`} className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${badge.bg}`}>
+                    <span className="text-lg">{badge.icon}</span>
+                    <span className="text-xs font-bold text-slate-700 truncate">{player.name}</span>
+                    <span className={`ml-auto text-[11px] font-bold whitespace-nowrap ${badge.accent}`}>{badge.title}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
 
 function PlayerStatsAndAchievements({
   players,
   matches,
+  sessions,
+  settings,
+  badges,
   meId,
   setMeId,
 }: {
   players: Player[];
   matches: Match[];
+  sessions: Record<string, SessionInfo>;
+  settings?: LeagueSettings;
+  badges: BadgeDef[];
   meId: string;
   setMeId: (id: string) => void;
 }) {
@@ -1382,11 +5461,21 @@ function PlayerStatsAndAchievements({
     };
   }, [meId, matches]);
 
+  const ratingHistory = useMemo(() => computeRatings(matches).history, [matches]);
+  const myRating = meId ? ratingHistory.get(meId) ?? [] : [];
+
   const ach = useMemo(
-    () => (meId ? computeAchievementsFull(meId, matches, players) : []),
-    [meId, matches, players]
+    () => (meId ? computeAchievementsFull(meId, { matches, players, sessions, settings, badges }) : []),
+    [meId, matches, players, sessions, settings, badges]
   );
   const earnedIds = new Set(ach.map((a) => a.id));
+  // a legutóbbi edzésen szerzett jelvények kiemelve
+  const latest = useMemo(() => latestSessionDate(matches), [matches]);
+  const unlockMatch = (a: EarnedBadge) => {
+    const m = a.matchId ? matches.find((x) => x.id === a.matchId) : undefined;
+    const nameOf = (id: string) => players.find((p) => p.id === id)?.name ?? "Unknown";
+    return m ? `${formatTeam(m.teamA, nameOf)} vs ${formatTeam(m.teamB, nameOf)}` : undefined;
+  };
   const [showLegend, setShowLegend] = useState(false);
 
   if (!players.length) return null;
@@ -1411,9 +5500,7 @@ function PlayerStatsAndAchievements({
           >
             {players
               .slice()
-              .sort((a, b) =>
-                getBaseName(a.name).localeCompare(getBaseName(b.name), "hu")
-              )
+              .sort(byRealName)
               .map((p) => (
                 <option key={p.id} value={p.id}>
                   {p.name}
@@ -1446,6 +5533,22 @@ function PlayerStatsAndAchievements({
           </div>
         )}
 
+        {/* Rating történet */}
+        {meId && (
+          <div className="mb-4">
+            <div className="flex items-baseline justify-between mb-1">
+              <h4 className="text-sm font-bold uppercase tracking-wider text-slate-400">Rating</h4>
+              <span className="text-lg font-black text-slate-800">
+                {Math.round(myRating[myRating.length - 1]?.rating ?? RATING_START)}
+                <span className="ml-1 text-[10px] text-slate-400 font-normal">
+                  ±{Math.round(myRating[myRating.length - 1]?.rd ?? RD_START)}
+                </span>
+              </span>
+            </div>
+            <RatingChart points={myRating} />
+          </div>
+        )}
+
         {/* Achievements blokk (polc + alumínium plakettek) */}
         <div className="mt-4 border-t border-slate-100 pt-4">
           <h4 className="mb-2 text-sm font-bold uppercase tracking-wider text-slate-400">
@@ -1457,14 +5560,14 @@ function PlayerStatsAndAchievements({
           ) : (
             <div className="space-y-4 mb-4">
               {ach.map((a) => {
-                const meta =
-                  BADGE_META[a.id] || {
-                    icon: "⭐",
-                    accent: "text-slate-600",
-                  };
-
+                const how = unlockMatch(a);
                 return (
                   <div key={a.id} className="relative pt-2 pb-4">
+                    {a.unlockedAt === latest && (
+                      <span className="absolute top-0 right-4 z-20 rounded-full bg-[#84cc16] px-2 py-0.5 text-[9px] font-black uppercase text-white shadow-sm">
+                        New
+                      </span>
+                    )}
                     {/* BADGE – felül, a polcon ülve (alumínium plakett) */}
                     <div
                       className="
@@ -1479,12 +5582,12 @@ function PlayerStatsAndAchievements({
                         after:mix-blend-overlay after:opacity-30 after:pointer-events-none
                       "
                     >
-                      <span className={`text-xl ${meta.accent}`}>
-                        {meta.icon}
+                      <span className={`text-xl ${a.accent}`}>
+                        {a.icon}
                       </span>
                       <div className="flex flex-col">
                         <span
-                          className={`text-xs font-bold ${meta.accent}`}
+                          className={`text-xs font-bold ${a.accent}`}
                         >
                           {a.title}
                         </span>
@@ -1493,6 +5596,10 @@ function PlayerStatsAndAchievements({
                             {a.description}
                           </span>
                         )}
+                        <span className="text-[10px] text-slate-400 leading-tight">
+                          Unlocked {a.unlockedAt}
+                          {how && <> · {how}</>}
+                        </span>
                       </div>
                     </div>
 
@@ -1530,8 +5637,7 @@ function PlayerStatsAndAchievements({
 
           {showLegend && (
             <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
-              {ALL_BADGES.map((b) => {
-                const meta = BADGE_META[b.id];
+              {badges.filter((b) => !b.retired).map((b) => {
                 const isEarned = earnedIds.has(b.id);
                 return (
                   <div
@@ -1542,7 +5648,7 @@ function PlayerStatsAndAchievements({
                         : "bg-slate-50 border-slate-100 opacity-60"
                     }`}
                   >
-                    <span className="text-xl">{meta?.icon}</span>
+                    <span className="text-xl">{b.icon}</span>
                     <div>
                       <div
                         className={`text-xs font-bold ${
@@ -1570,22 +5676,26 @@ function PlayerStatsAndAchievements({
 
 
 
-function AdminPinModal({
+function AdminLoginModal({
   open,
   onClose,
+  onSignIn,
   onSuccess,
 }: {
   open: boolean;
   onClose: () => void;
+  onSignIn: (email: string, password: string) => Promise<boolean>;
   onSuccess: () => void;
 }) {
-  const [pin, setPin] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     if (open) {
-      setPin("");
+      setPassword("");
       setError("");
       setTimeout(() => inputRef.current?.focus(), 50);
     }
@@ -1593,12 +5703,25 @@ function AdminPinModal({
 
   if (!open) return null;
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (pin === ADMIN_PIN) {
-      onSuccess();
-    } else {
-      setError("Incorrect PIN code.");
+    setError("");
+    setBusy(true);
+    try {
+      const ok = await onSignIn(email.trim(), password);
+      if (ok) onSuccess();
+      else setError("This account does not have admin access.");
+    } catch (err: any) {
+      const code = String(err?.code || "");
+      setError(
+        code.includes("invalid-credential") || code.includes("wrong-password") || code.includes("user-not-found")
+          ? "Incorrect email or password."
+          : code.includes("too-many-requests")
+          ? "Too many attempts. Try again later."
+          : err?.message || "Sign-in failed."
+      );
+    } finally {
+      setBusy(false);
     }
   };
 
@@ -1609,33 +5732,32 @@ function AdminPinModal({
         <h2 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
           Admin Access
           <span className="text-sm bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">
-            PIN
+            Sign in
           </span>
         </h2>
 
         <p className="text-xs text-slate-500 mb-4">
-          Please enter the 4-digit admin PIN code.
+          Sign in with your admin account.
         </p>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          {/* PIN input – password dots (••••) */}
-          <div className="flex justify-center">
-            <input
-              ref={inputRef}
-              type="password"
-              maxLength={4}
-              inputMode="numeric"
-              pattern="\d*"
-              className="w-32 text-center text-2xl tracking-[0.4em] bg-slate-50 
-                         border border-slate-200 rounded-xl py-2 
-                         focus:outline-none focus:ring-2 focus:ring-[#84cc16] focus:bg-white"
-              value={pin}
-              onChange={(e) =>
-                setPin(e.target.value.replace(/[^0-9]/g, "").slice(0, 4))
-              }
-              placeholder="PIN"
-            />
-          </div>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            ref={inputRef}
+            type="email"
+            autoComplete="username"
+            className={input}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+          />
+          <input
+            type="password"
+            autoComplete="current-password"
+            className={input}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+          />
 
           {error && (
             <p className="text-xs text-center text-rose-500 font-medium">
@@ -1656,11 +5778,12 @@ function AdminPinModal({
 
             <button
               type="submit"
+              disabled={busy || !email || !password}
               className="flex-1 inline-flex items-center justify-center rounded-lg 
                          px-3 py-2 text-xs font-bold bg-[#84cc16] text-white 
-                         hover:bg-[#65a30d] shadow-sm"
+                         hover:bg-[#65a30d] shadow-sm disabled:opacity-50"
             >
-              Enter
+              {busy ? "Signing in…" : "Sign in"}
             </button>
           </div>
         </form>
@@ -1674,42 +5797,119 @@ function AdminPinModal({
 
 // ========================= MAIN APP =========================
 export default function App() {
-  const [league, write, replaceAll] = useLeague();
+  const [leagueId, setLeagueId] = useState(leagueIdFromUrl);
+  const [league, write, replaceAll, leagueStatus, commit, sync, updateSession] = useLeague(leagueId);
+  const [leagues, createLeague] = useLeagueDirectory();
+  const [rsvps, setRsvp] = useRsvps(leagueId, fmt(new Date()));
   const { players, matches } = league;
+  // jelenléthez és választókhoz csak az aktívak; statisztikához a beolvasztottak nélkül mindenki
+  const activePlayers = useMemo(() => players.filter(isActivePlayer).sort(byRealName), [players]);
+  const listedPlayers = useMemo(() => players.filter(p => p.status !== "merged").sort(byRealName), [players]);
+  const usedIds = useMemo(() => new Set(matches.flatMap(m => [...m.teamA, ...m.teamB])), [matches]);
+
+  // vissza/előre gomb a böngészőben
+  useEffect(() => {
+    const onPop = () => setLeagueId(leagueIdFromUrl());
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
 
-  const [role, setRole] = useState<"player" | "admin">("player");
-  const [showPinModal, setShowPinModal] = useState(false);
-  const [pendingRole, setPendingRole] = useState<"player" | "admin" | null>(null);
+  // a választott nézet megmarad újratöltés után; admin nézet csak bejelentkezett adminnak jár
+  const adminAuth = useAdminAuth();
+  const [roleChoice, setRoleChoice] = useState<"player" | "admin">(() =>
+    localStorage.getItem(ROLE_STORAGE_KEY) === "admin" ? "admin" : "player"
+  );
+  const role: "player" | "admin" = roleChoice === "admin" && adminAuth.isAdmin ? "admin" : "player";
+  const [showLoginModal, setShowLoginModal] = useState(false);
+
+  // pillanatképek (csak adminnak olvashatók); a régi, dokumentumba ágyazott mentések is látszanak
+  const { backups: snapshotList, saveBackup, deleteBackup } = useBackups(leagueId, adminAuth.isAdmin);
+  const allBackups = useMemo(() => {
+    const ids = new Set(snapshotList.map((b) => b.id));
+    return [...snapshotList, ...(league.backups ?? []).filter((b) => !ids.has(b.id))].sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+  }, [snapshotList, league.backups]);
+  const backupRetention = league.backupRetention ?? DEFAULT_BACKUP_RETENTION;
+  const settings = useMemo(() => leagueSettings({ settings: league.settings }), [league.settings]);
+  const badges = useMemo(() => leagueBadges({ badges: league.badges }), [league.badges]);
+  const { entries: auditEntries, appendAudit } = useAuditLog(leagueId, adminAuth.isAdmin);
 
   const [date, setDate] = useState(fmt(nextTrainingDate()));
-  const [presentIds, setPresentIds] = useState<string[]>([]);
   const matchesForDate = useMemo(
     () => matches.filter((m) => m.date === date),
     [matches, date]
   );
   const [meId, setMeId] = useState("");
+  const [search, setSearch] = useState("");
   const [standingsMatchFilter, setStandingsMatchFilter] = useState<"singles" | "all" | "doubles">("all");
+
+  // szezon: null = mindig az aktuális, "all" = összesített
+  const today = fmt(new Date());
+  const seasons = useMemo(() => league.seasons ?? [], [league.seasons]);
+  const [seasonChoice, setSeasonChoice] = useState<string | null>(null);
+  const selectedSeason =
+    seasonChoice === "all" ? undefined : seasons.find((s) => s.id === (seasonChoice ?? currentSeason(seasons, today)?.id));
+  const seasonMatches = useMemo(
+    () => (selectedSeason ? matches.filter((m) => inSeason(m.date, selectedSeason)) : matches),
+    [matches, selectedSeason]
+  );
+  const seasonSessions = useMemo(() => {
+    const all = league.sessions ?? {};
+    if (!selectedSeason) return all;
+    return Object.fromEntries(Object.entries(all).filter(([d]) => inSeason(d, selectedSeason)));
+  }, [league.sessions, selectedSeason]);
+
+  // jelenlét: a liga adataiban, naponként tárolva
+  const presentIds = useMemo(() => league.sessions?.[date]?.present ?? [], [league.sessions, date]);
+  const setPresentIds = (ids: string[]) => {
+    const next = Array.from(new Set(ids));
+    updateSession(date, { present: { add: next.filter((id) => !presentIds.includes(id)), remove: presentIds.filter((id) => !next.includes(id)) } });
+  };
+  const setCapacity = (capacity: number | undefined) => updateSession(date, { capacity: capacity ?? null });
+
+  // liga-váltáskor a ligához kötött kijelölések nullázódnak
+  useEffect(() => {
+    setMeId("");
+    setSeasonChoice(null);
+  }, [leagueId]);
+  const switchLeague = (id: string) => {
+    if (id === leagueId) return;
+    setLeagueIdInUrl(id);
+    setLeagueId(id);
+  };
+
+  const chooseRole = (next: "player" | "admin") => {
+    setRoleChoice(next);
+    localStorage.setItem(ROLE_STORAGE_KEY, next);
+  };
+
   const handleRoleChange = (next: "player" | "admin") => {
-    if (next === "admin") {
-      // MINDIG kérjen PIN-t adminra váltáskor
-      setPendingRole("admin");
-      setShowPinModal(true);
+    if (next === "admin" && !adminAuth.isAdmin) {
+      // nincs admin bejelentkezés → belépő ablak
+      setShowLoginModal(true);
     } else {
-      setRole("player");
+      chooseRole(next);
     }
   };
 
-  const handlePinSuccess = () => {
-    if (pendingRole === "admin") {
-      setRole("admin");
+  const handleLoginSuccess = () => {
+    chooseRole("admin");
+    setShowLoginModal(false);
+  };
+
+  const handleSignOut = async () => {
+    chooseRole("player");
+    try {
+      await adminAuth.logOut();
+    } catch (err) {
+      console.error("Sign-out failed:", err);
     }
-    setShowPinModal(false);
-    setPendingRole(null);
   };
 
-  const handlePinClose = () => {
-    setShowPinModal(false);
-    setPendingRole(null);
+  const identity = {
+    email: adminAuth.user && !adminAuth.user.isAnonymous ? adminAuth.user.email ?? "" : "",
+    isAdmin: adminAuth.isAdmin,
   };
 
 
@@ -1720,80 +5920,340 @@ export default function App() {
       return Array.from(map.entries()).map(([date, matches]) => ({ date, matches }));
   }, [matches]);
 
+  // ugrólista: meccses és csak jelenléttel rögzített napok is
+  const jumpDates = useMemo(() => {
+      const dates = new Set(grouped.map(g => g.date));
+      Object.entries(league.sessions ?? {}).forEach(([d, info]) => { if (info?.present?.length) dates.add(d); });
+      return Array.from(dates).sort().reverse().map(d => ({ date: d, present: league.sessions?.[d]?.present?.length ?? 0 }));
+  }, [grouped, league.sessions]);
+
   useEffect(() => { if(players.length && !meId) setMeId(players[0].id); }, [players, meId]);
 
-  const standings = useMemo(() => {
-    const s = new Map();
-    const MIN_MATCHES = 5;
-    const matchesForStandings =
+  const matchesForStandings = useMemo(
+    () =>
       standingsMatchFilter === "all"
-        ? matches
-        : matches.filter((m) =>
+        ? seasonMatches
+        : seasonMatches.filter((m) =>
             standingsMatchFilter === "singles" ? isSinglesMatch(m) : !isSinglesMatch(m)
-          );
-players
-  .filter((p) => !isHiddenFromStandings(p))
-  .forEach((p) =>
-    s.set(p.id, { ...p, wins: 0, matches: 0, totalPoints: 0, qualified: false })
-  );   
-  const melinda = players.find((p) => p.name.toLowerCase().includes("melinda"));
-const melindaId = melinda?.id;
-
-matchesForStandings.forEach((m) => {
-  if (!m.winner) return;
+          ),
+    [seasonMatches, standingsMatchFilter]
+  );
+  const standings = useMemo(
+    () => computeStandings(players, matchesForStandings, league.settings),
+    [players, matchesForStandings, league.settings]
+  );
+  // edzésnaponkénti visszaszámolás a mozgás-nyilakhoz és a játékos-grafikonhoz
+  const standingsHistory = useMemo(
+    () => computeStandingsHistory(players, matchesForStandings, league.settings),
+    [players, matchesForStandings, league.settings]
+  );
 
-  // matches számlálás mindenkinek, aki benne volt (üres stringeket kihagyjuk)
-  [...m.teamA, ...m.teamB].filter(Boolean).forEach((id) => {
-    const d = s.get(id);
-    if (d) d.matches++;
-  });
+  const createSeason = (season: Omit<Season, "id">) => {
+      if (!season.name) return "Give the season a name.";
+      if (season.startDate > season.endDate) return "The season must end after it starts.";
+      const clash = seasons.find(s => season.startDate <= s.endDate && s.startDate <= season.endDate);
+      if (clash) return `Overlaps with “${clash.name}”.`;
+      write({ seasons: [...seasons, { ...season, id: uid() }] });
+      return null;
+  };
+  // lezárás: a végeredmény befagy, a következő szezon a lezárás utáni napon indul
+  const closeSeason = (id: string, next: { name: string; endDate: string }) => {
+      const season = seasons.find(s => s.id === id);
+      if (!season) return "Season not found.";
+      if (!next.name) return "Give the next season a name.";
+      const endDate = today < season.endDate ? today : season.endDate;
+      const startNext = addDays(endDate, 1);
+      if (next.endDate < startNext) return `The next season must end after ${startNext}.`;
+      const finalStandings: SeasonStanding[] = computeStandings(
+          players,
+          matches.filter(m => m.date >= season.startDate && m.date <= endDate),
+          league.settings
+      ).map(r => ({
+          id: r.id, name: r.name, totalPoints: r.totalPoints, wins: r.wins,
+          matches: r.matches, winRate: r.winRate, rating: r.rating, qualified: r.qualified, rank: r.rank,
+      }));
+      const closed: Season = { ...season, endDate, closedAt: new Date().toISOString(), finalStandings };
+      write({ seasons: [...seasons.map(s => s.id === id ? closed : s), { id: uid(), name: next.name, startDate: startNext, endDate: next.endDate }] });
+      setSeasonChoice(null);
+      return null;
+  };
 
-  const winners = (m.winner === "A" ? m.teamA : m.teamB).filter(Boolean);
-  const losers = (m.winner === "A" ? m.teamB : m.teamA).filter(Boolean);
+  // a megtartási limit feletti legrégebbiek törlése
+  const pruneBackups = (list: Backup[]) => {
+      const newestFirst = [...new Map(list.map(b => [b.id, b])).values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return Promise.all(newestFirst.slice(backupRetention).map(old => deleteBackup(old.id)));
+  };
+  // `incoming`: fájlból érkező mentések; a régi, dokumentumba ágyazott mentések is ekkor (egyszer) átkerülnek a gyűjteménybe
+  const takeSnapshot = async (note: string, incoming: Backup[] = []) => {
+      const b: Backup = {
+          id: uid(),
+          createdAt: new Date().toISOString(),
+          note,
+          data: { players, matches, sessions: league.sessions ?? {}, seasons: league.seasons ?? [], title: league.title, settings: league.settings, badges: league.badges },
+      };
+      const known = new Set(snapshotList.map(x => x.id));
+      const moved = [...(league.backups ?? []), ...incoming].filter(x => !known.has(x.id));
+      await Promise.all([b, ...moved].map(saveBackup));
+      if (league.backups?.length) write({ backups: [] });
+      await pruneBackups([b, ...moved, ...snapshotList]);
+      return b.id;
+  };
+  const snapshotBefore = (note: string) => takeSnapshot(note).catch(err => console.error("Snapshot failed:", err));
+  const removeBackup = (id: string) => {
+      if (snapshotList.some(b => b.id === id)) void deleteBackup(id).catch(err => console.error(err));
+      else write({ backups: (league.backups ?? []).filter(b => b.id !== id) });
+  };
 
-  // alappontok
-  winners.forEach((id) => {
-    const d = s.get(id);
-    if (d) {
-      d.wins++;
-      d.totalPoints += 3; // ✅ győzelem = 3
-    }
-  });
+  // tevékenységnapló + "visszavonás" toast a legutóbbi műveletre
+  const [lastAction, setLastAction] = useState<AuditEntry | null>(null);
+  const closeUndoToast = useCallback(() => setLastAction(null), []);
+  const auditEntry = (action: AuditAction, summary: string, changes: AuditChange[], extra: Partial<AuditEntry> = {}): AuditEntry | undefined => {
+      if (!changes.length && !extra.backupId) return undefined;
+      return {
+          id: uid(),
+          at: new Date().toISOString(),
+          actor: identity.email || adminAuth.user?.uid || "unknown",
+          action,
+          summary,
+          changes,
+          ...extra,
+      };
+  };
+  const logAction = (action: AuditAction, summary: string, changes: AuditChange[], extra: Partial<AuditEntry> = {}) => {
+      const entry = auditEntry(action, summary, changes, extra);
+      if (!entry) return;
+      void appendAudit(entry).catch(err => console.error("Audit log write failed:", err));
+      setLastAction(entry);
+  };
+  // tranzakciós mentés: a naplót a commit írja, ha a művelet tényleg felment; toast csak az azonnal mentettre
+  const commitLogged = async (patch: Partial<LeagueDoc>, input: PendingInput, audit?: AuditEntry) => {
+      const result = await commit(patch, { ...input, audit });
+      if (result === "saved" && audit) setLastAction(audit);
+      return result;
+  };
+  // játékos- és meccs-változások egy tranzakcióban, ütközés-ellenőrzéssel; a többi mező (pl. sessions) csak utána, sima írással
+  const commitPatch = async (patch: Partial<LeagueDoc>, audit?: AuditEntry) => {
+      const { players: nextPlayers, matches: nextMatches, ...rest } = patch;
+      const result = await commitLogged(
+          { ...(nextPlayers ? { players: nextPlayers } : {}), ...(nextMatches ? { matches: nextMatches } : {}) },
+          {
+              kind: "items",
+              ...(nextPlayers ? { players: changedItems(players, nextPlayers) } : {}),
+              ...(nextMatches ? { matches: changedItems(matches, nextMatches) } : {}),
+          },
+          audit
+      );
+      if (result !== "failed" && Object.keys(rest).length) write(rest);
+      return result;
+  };
 
-  losers.forEach((id) => {
-    const d = s.get(id);
-    if (d) d.totalPoints += 1; // ✅ vereség = 1
-  });
+  // import: előtte pillanatkép, a fájlban lévő mentések a backups gyűjteménybe kerülnek
+  const importReplace = async (next: LeagueDoc) => {
+      const backupId = await takeSnapshot("Before import", next.backups ?? []);
+      await replaceAll({ ...next, backups: [] }, "Import");
+      logAction("replace-all", `Imported ${next.players.length} players, ${next.matches.length} matches`, [], { backupId });
+  };
+  // adatjavítás (Data health): előtte pillanatkép, a napló az érintett elemeket rögzíti
+  const repairData = (patch: Partial<LeagueDoc>, summary: string) => {
+      void snapshotBefore(`Before repair (${summary})`);
+      void commitPatch(patch, auditEntry("repair", summary, [
+          ...(patch.players ? itemChanges("player", players, patch.players) : []),
+          ...(patch.matches ? itemChanges("match", matches, patch.matches) : []),
+      ]));
+  };
+  // összefésült import: egyetlen csereként megy fel, előtte pillanatkép
+  const importMerge = async (next: LeagueDoc, summary: string) => {
+      const backupId = await takeSnapshot("Before merge import", next.backups ?? []);
+      await replaceAll({ ...next, backups: [] }, "Merge import");
+      logAction("replace-all", summary, [], { backupId });
+  };
+  const restoreBackup = async (b: Backup, undoOf?: string) => {
+      const backupId = await takeSnapshot("Before restore");
+      await replaceAll({
+          ...league,
+          backups: [],
+          title: b.data.title ?? league.title,
+          players: b.data.players,
+          matches: b.data.matches,
+          sessions: b.data.sessions ?? league.sessions,
+          seasons: b.data.seasons ?? league.seasons,
+          settings: b.data.settings ?? league.settings,
+          badges: b.data.badges ?? league.badges,
+      }, "Restore");
+      logAction(undoOf ? "undo" : "replace-all", `Restored snapshot “${b.note || new Date(b.createdAt).toLocaleString()}”`, [], { backupId, undoOf });
+  };
 
-  // ✅ Melinda legyőzése +1 (csak a győztes oldalon, és csak ha Melinda az ellenfél csapatában volt)
-  if (melindaId && losers.includes(melindaId)) {
-    winners.forEach((id) => {
-      const d = s.get(id);
-      if (d) d.totalPoints += 1;
-    });
-  }
-});
+  const saveMatches = (next: Match[], action: AuditAction, summary: string, undoOf?: string) => {
+      const audit = auditEntry(action, summary, itemChanges("match", matches, next), { undoOf });
+      void commitLogged({ matches: next }, { kind: "matches", ...changedItems(matches, next) }, audit);
+  };
+  const savePlayers = (next: Player[], action: AuditAction, summary: string, undoOf?: string) => {
+      void commitPatch({ players: next }, auditEntry(action, summary, itemChanges("player", players, next), { undoOf }));
+  };
+  const addPlayer = (profile: PlayerProfile) => {
+      const player = withProfile({ id: uid(), name: "" }, profile);
+      const audit = auditEntry("add-player", player.name, [{ kind: "player", id: player.id, before: null, after: player }]);
+      void commitLogged({ players: [...players, player] }, { kind: "addPlayer", player }, audit);
+  };
+  const removePlayer = (id: string) => {
+      void snapshotBefore(`Before removing ${nameOf(id)}`);
+      savePlayers(players.filter(p => p.id !== id), "remove-player", nameOf(id));
+  };
+  const updatePlayerProfile = (id: string, patch: PlayerProfile) => {
+      const before = players.find(p => p.id === id);
+      if (!before) return;
+      const after = withProfile(before, patch);
+      const what = Object.keys(patch).map(k => `${k} ${String(after[k as keyof PlayerProfile] ?? "–")}`).join(", ");
+      savePlayers(players.map(p => p.id === id ? after : p), "edit-player", `${before.name}: ${what}`);
+  };
+  const setBounty = (id: string, bounty: boolean) => {
+      savePlayers(players.map(p => p.id === id ? { ...p, bounty: bounty || undefined } : p), "edit-player", `${nameOf(id)}: bounty ${bounty ? "on" : "off"}`);
+  };
+  const updatePlayerGender = (id:string, g: "M"|"F"|null) => {
+      savePlayers(players.map(p => p.id === id ? { ...p, gender: g??undefined } : p), "edit-player", `${nameOf(id)}: gender ${g ?? "–"}`);
+  };
+  // beolvasztott játékos → a túlélő neve
+  const nameOf = (id: string) => resolveMerged(players, id)?.name || "Unknown";
+  const archivePlayer = (id: string, archived: boolean) => {
+      savePlayers(
+          players.map(p => p.id === id ? (archived ? { ...p, status: "archived" as const } : { ...p, status: undefined }) : p),
+          "edit-player",
+          `${nameOf(id)}: ${archived ? "archived" : "restored"}`
+      );
+  };
+  const mergePlayer = (from: string, into: string): string | null => {
+      const shared = sharedMatches(matches, from, into);
+      if (shared.length) {
+          return `${nameOf(from)} and ${nameOf(into)} played in the same match (${shared.map(m => m.date).join(", ")}). Fix or delete ${shared.length === 1 ? "that match" : "those matches"} first.`;
+      }
+      const summary = `${nameOf(from)} → ${nameOf(into)}`;
+      void snapshotBefore(`Before merging ${summary}`);
+      const patch = mergePlayers(league, from, into);
+      void commitPatch(patch, auditEntry("merge-player", summary, [
+          ...itemChanges("player", players, patch.players!),
+          ...itemChanges("match", matches, patch.matches!),
+      ]));
+      return null;
+  };
+  // liga-szintű beállítás (pontozás, jelvények): előtte pillanatkép, a napló a régi és az új értéket is rögzíti
+  const saveLeagueField = (change: Extract<AuditChange, { kind: "league" }>, action: AuditAction, summary: string, undoOf?: string) => {
+      if (canonical(change.before) === canonical(change.after)) return;
+      if (!undoOf) void snapshotBefore(`Before ${AUDIT_LABELS[action].toLowerCase()}`);
+      logAction(action, summary, [change], { undoOf });
+      if (change.id === "settings") write({ settings: change.after ?? undefined });
+      else write({ badges: change.after ?? undefined });
+  };
+  const saveSettings = (next: LeagueSettings) => {
+      const changed = (Object.keys(next) as (keyof LeagueSettings)[]).filter(k => canonical(next[k]) !== canonical(settings[k]));
+      saveLeagueField({ kind: "league", id: "settings", before: league.settings ?? null, after: next }, "edit-settings", changed.join(", ") || "saved");
+  };
+  const saveBadges = (next: BadgeDef[]) => {
+      const before = byId(badges);
+      const after = byId(next);
+      const added = next.filter(b => !before[b.id]).map(b => `+${b.title}`);
+      const removed = badges.filter(b => !after[b.id]).map(b => `−${b.title}`);
+      const edited = next.filter(b => before[b.id] && canonical(before[b.id]) !== canonical(b)).map(b => b.title);
+      saveLeagueField({ kind: "league", id: "badges", before: league.badges ?? null, after: next }, "edit-badges", [...added, ...removed, ...edited].join(", "));
+  };
+  const upgradeProfiles = async () => {
+      await takeSnapshot("Before profile upgrade");
+      const patch = profileUpgrade(league);
+      await commitPatch(patch, auditEntry("upgrade-profiles", `${patch.players.filter((p, i) => p !== players[i]).length} players`, [
+          ...itemChanges("player", players, patch.players),
+          ...(patch.settings ? [{ kind: "league" as const, id: "settings" as const, before: league.settings ?? null, after: patch.settings }] : []),
+      ]));
+  };
+  const describeMatch = (m: Match) => `${m.date}: ${formatTeam(m.teamA, nameOf)} vs ${formatTeam(m.teamB, nameOf)}`;
+
+  // visszavonás: csak ha az érintett elemek azóta nem változtak
+  const undoEntry = (e: AuditEntry): string | null => {
+      if (e.backupId) {
+          const b = allBackups.find(x => x.id === e.backupId);
+          if (!b) return "The snapshot taken before this change no longer exists.";
+          void restoreBackup(b, e.id).catch(err => console.error("Undo failed:", err));
+          return null;
+      }
+      const current = (c: AuditChange) =>
+          c.kind === "match" ? matches.find(m => m.id === c.id) : c.kind === "player" ? players.find(p => p.id === c.id) : league[c.id];
+      const stale = e.changes.find(c => canonical(current(c)) !== canonical(c.after ?? undefined));
+      if (stale) return "This was changed again since, so it can't be undone automatically.";
+      const matchChanges = e.changes.filter((c): c is Extract<AuditChange, { kind: "match" }> => c.kind === "match");
+      const playerChanges = e.changes.filter((c): c is Extract<AuditChange, { kind: "player" }> => c.kind === "player");
+      const leagueChanges = e.changes.filter((c): c is Extract<AuditChange, { kind: "league" }> => c.kind === "league");
+      // a korábban be nem állított mezőt nem tudjuk "visszatörölni"
+      if (leagueChanges.some(c => !c.before)) return "The earlier settings were never saved, so this can't be undone automatically. Restore the snapshot taken before it.";
+      const summary = `${AUDIT_LABELS[e.action]}: ${e.summary}`;
+      if (matchChanges.length) saveMatches(revertChanges(matches, matchChanges), "undo", summary, e.id);
+      if (playerChanges.length) savePlayers(revertChanges(players, playerChanges), "undo", summary, e.id);
+      leagueChanges.forEach(c => saveLeagueField({ ...c, before: c.after, after: c.before } as typeof c, "undo", summary, e.id));
+      return null;
+  };
 
-    return Array.from(s.values()).map((p:any) => ({ 
-        ...p, 
-        winRate: p.matches?Math.round(p.wins/p.matches*100):0,
-        qualified: p.matches >= MIN_MATCHES
-    })).sort((a,b) => b.totalPoints - a.totalPoints);
-  }, [players, matches, standingsMatchFilter]);
+  // ha az adott napra be van állítva pályaszám, a felszabadult pályákra jön a következő meccs
+  // a `skip`-ben lévő meccsek most nem kapnak pályát (pl. épp visszatett meccs)
+  const withCourtsFilled = (next: Match[], d: string, skip?: ReadonlySet<string>) => {
+      const courts = league.sessions?.[d]?.courts ?? 0;
+      if (!courts) return next;
+      const filled = new Map(fillCourts(next.filter(m => m.date === d), courts, new Date().toISOString(), skip).map(m => [m.id, m]));
+      return next.map(m => filled.get(m.id) ?? m);
+  };
+  const updateMatch = (id: string, action: AuditAction, fn: (m: Match) => Match, skipRefill = false) => {
+      const target = matches.find(m => m.id === id);
+      if (!target) return;
+      const updated = fn(target);
+      const result = updated.scores?.length ? ` – ${formatScores(updated.scores)}` : updated.winner ? ` – winner ${formatTeam(updated.winner === "A" ? updated.teamA : updated.teamB, nameOf)}` : "";
+      saveMatches(withCourtsFilled(matches.map(m => m.id === id ? updated : m), target.date, skipRefill ? new Set([id]) : undefined), action, describeMatch(target) + result);
+  };
+  const finish = (m: Match, w: "A"|"B"): Match =>
+      m.court && !m.finishedAt ? { ...m, winner: w, finishedAt: new Date().toISOString() } : { ...m, winner: w };
 
-  const addPlayer = (name: string) => write({ players: [...players, { id: uid(), name }] });
-  const removePlayer = (id: string) => write({ players: players.filter(p => p.id !== id) });
-  const updatePlayerEmoji = (id:string, emoji:string) => {
-      write({ players: players.map(p => p.id === id ? { ...p, name: `${emoji} ${getBaseName(p.name)}` } : p) });
+  // kézi győztes-választásnál az esetleg ellentmondó eredményt eldobjuk
+  const pickWinner = (id: string, w: "A"|"B") => updateMatch(id, "set-result", m => {
+      const next = finish(m, w);
+      if (matchWinnerFromScores(m.scores) !== w) delete next.scores;
+      return next;
+  });
+  const setMatchScores = (id: string, scores: GameScore[]) => {
+      const w = matchWinnerFromScores(scores);
+      if (!w) return;
+      updateMatch(id, "set-result", m => ({ ...finish(m, w), scores }));
   };
-  const updatePlayerGender = (id:string, g: "M"|"F"|null) => {
-      write({ players: players.map(p => p.id === id ? { ...p, gender: g??undefined } : p) });
+  // visszaállítás: pálya nélkül, az eredeti helyére kerül vissza a sorba
+  const clearWinner = (id: string) => updateMatch(id, "clear-result", m => {
+      const next: Match = { ...m };
+      delete next.winner; delete next.scores; delete next.court; delete next.startedAt; delete next.finishedAt;
+      return next;
+  });
+  // a felszabadult pályára a következő meccs jön, nem ugyanez
+  const requeueMatch = (id: string) => updateMatch(id, "requeue", m => {
+      const next: Match = { ...m };
+      delete next.court; delete next.startedAt;
+      return next;
+  }, true);
+  const deleteMatch = (id: string) => {
+      const target = matches.find(m => m.id === id);
+      if (!target) return;
+      saveMatches(withCourtsFilled(matches.filter(m => m.id !== id), target.date), "delete-match", describeMatch(target));
   };
-  const nameOf = (id: string) => players.find(p => p.id === id)?.name || "Unknown";
-  const pickWinner = (id: string, w: "A"|"B") => write({ matches: matches.map(m => m.id === id ? { ...m, winner: w } : m) });
-  const clearWinner = (id: string) => write({ matches: matches.map(m => { if(m.id===id) { const {winner,...rest}=m; return rest as Match; } return m; }) });
-  const deleteMatch = (id: string) => write({ matches: matches.filter(m => m.id !== id) });
-  const createMatch = (tA: Pair, tB: Pair) => write({ matches: [...matches, { id: uid(), date, teamA: tA, teamB: tB }] });
+  const addMatches = (newMatches: Match[]) =>
+      saveMatches(
+          withCourtsFilled([...matches, ...newMatches], date),
+          "add-match",
+          newMatches.length === 1 ? describeMatch(newMatches[0]) : `${newMatches.length} matches on ${date}`
+      );
+  const createMatch = (tA: Pair, tB: Pair) => addMatches([{ id: uid(), date, teamA: tA, teamB: tB }]);
+  const addGeneratedMatches = (newMatches: Match[]) => {
+      void snapshotBefore(`Before auto draw (${date})`);
+      addMatches(newMatches);
+  };
+  const setCourts = async (n: number) => {
+      const courts = Math.max(0, n);
+      const filled = courts
+          ? new Map(fillCourts(matchesForDate, courts, new Date().toISOString()).map(m => [m.id, m]))
+          : new Map<string, Match>();
+      if (await commitPatch({ matches: matches.map(m => filled.get(m.id) ?? m) }) !== "failed") updateSession(date, { courts });
+  };
+  const todayCourts = league.sessions?.[today]?.courts ?? 0;
 
   const playedToday = new Set<string>();
   matchesForDate.forEach(m => { [...m.teamA, ...m.teamB].forEach(id => playedToday.add(id)); });
@@ -1813,8 +6273,8 @@ matchesForStandings.forEach((m) => {
           />
       </div>
 
-<Sidebar role={role} setRole={handleRoleChange} />
-      <MobileHeader role={role} setRole={handleRoleChange} />
+<Sidebar role={role} setRole={handleRoleChange} identity={identity} onSignOut={handleSignOut} />
+      <MobileHeader role={role} setRole={handleRoleChange} identity={identity} onSignOut={handleSignOut} />
 
       <div className="flex-1 md:ml-64 p-4 md:p-8 transition-all w-full max-w-[100vw] overflow-x-hidden relative z-10">
         <header className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
@@ -1822,57 +6282,120 @@ matchesForStandings.forEach((m) => {
             <h1 className="text-2xl font-bold text-slate-800 px-3 py-1 rounded-lg">
               {role === "admin" ? "Admin Dashboard" : "Player Dashboard"}
             </h1>
-            <p className="text-slate-500 text-sm mt-1">Biatorbágy Badminton</p>
+            <p className="text-slate-500 text-sm mt-1">{league.title || "Biatorbágy Badminton"}</p>
           </div>
           <div className="flex items-center gap-4 w-full md:w-auto">
+              <SyncBadge state={sync.state} pending={sync.pending} error={sync.error} />
+              <LeaguePicker leagues={leagues} value={leagueId} onChange={switchLeague} />
+              <SeasonPicker seasons={seasons} value={selectedSeason?.id ?? "all"} onChange={setSeasonChoice} />
               <div className="relative w-full md:w-auto">
                   <span className="absolute left-3 top-2.5 text-slate-400"><Icons.Search /></span>
-                  <input className="pl-10 pr-4 py-2 bg-white rounded-full border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-[#84cc16] w-full md:w-64 shadow-sm" placeholder="Search..." />
+                  <input className="pl-10 pr-4 py-2 bg-white rounded-full border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-[#84cc16] w-full md:w-64 shadow-sm" placeholder="Search..." value={search} onChange={(e) => setSearch(e.target.value)} />
               </div>
               <button className="p-2 bg-white rounded-full border border-slate-200 hover:bg-slate-50 text-slate-500 shadow-sm"><Icons.Bell /></button>
           </div>
         </header>
 
+        {leagueStatus === "missing" && (
+          <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 flex justify-between items-center gap-3">
+            <span>League “{leagueId}” does not exist.</span>
+            <button className={btnSecondary} onClick={() => switchLeague(DEFAULT_LEAGUE_ID)}>Go to default league</button>
+          </div>
+        )}
+        {role === "admin" && league.interruptedWrite && sync.state !== "pending" && (
+          <div className="mb-6 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 flex justify-between items-center gap-3">
+            <span>⚠️ “{league.interruptedWrite.label}” started {new Date(league.interruptedWrite.startedAt).toLocaleString()} did not finish – some players/matches may be missing or outdated. Restore the snapshot taken before it (Backups).</span>
+            <button className={btnSecondary} onClick={() => write({ interruptedWrite: null })}>Dismiss</button>
+          </div>
+        )}
+        {sync.issue && (
+          <div className="mb-6 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-800 flex justify-between items-center gap-3">
+            <span>⚠️ {sync.issue} The latest saved data is shown.</span>
+            <button className={btnSecondary} onClick={sync.dismissIssue}>Dismiss</button>
+          </div>
+        )}
+
         {role === "admin" ? (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="space-y-6 lg:col-span-2">
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                         <DatePicker value={date} onChange={setDate} />
-                        <DrawMatches players={players} presentIds={presentIds} matchesForDate={matchesForDate} date={date} league={league} write={write} />
+                        <DrawMatches players={activePlayers} presentIds={presentIds} matchesForDate={matchesForDate} date={date} onAdd={addGeneratedMatches} nameOf={nameOf} />
                     </div>
-                    <AttendanceList players={players} presentIds={presentIds} setPresentIds={setPresentIds} />
-                    <MatchesList matches={matchesForDate} nameOf={nameOf} onPick={pickWinner} onDelete={deleteMatch} onClear={clearWinner} isAdmin={true} />
-                    <SelectPairs players={players} freeIds={freeIds} seenTeammates={seenTeammates} onCreate={createMatch} />
+                    <AttendanceList players={activePlayers} presentIds={presentIds} setPresentIds={setPresentIds} />
+                    <RsvpAdminCard date={date} rsvps={rsvps} capacity={league.sessions?.[date]?.capacity} nameOf={nameOf} presentIds={presentIds} onCapacityChange={setCapacity} onPrefill={(ids) => setPresentIds([...presentIds, ...ids])} />
+                    <CourtBoard matches={matchesForDate} courts={league.sessions?.[date]?.courts ?? 0} nameOf={nameOf} isAdmin onCourtsChange={setCourts} onPick={pickWinner} onRequeue={requeueMatch} />
+                    <MatchesList matches={matchesForDate} nameOf={nameOf} onPick={pickWinner} onScore={setMatchScores} onDelete={deleteMatch} onClear={clearWinner} isAdmin={true} />
+                    <SelectPairs players={activePlayers} freeIds={freeIds} seenTeammates={seenTeammates} onCreate={createMatch} />
                 </div>
                 <div className="space-y-6">
-                    <PlayerEditor players={players} onAdd={addPlayer} onRemove={removePlayer} onUpdateEmoji={updatePlayerEmoji} onUpdateGender={updatePlayerGender} />
-                    <AdminDateJump grouped={grouped} date={date} setDate={setDate} />
-                    <ImportExportCard league={league} onReplace={replaceAll} />
-                    <Standings rows={standings} />
+                    <PlayerEditor players={players} usedIds={usedIds} onAdd={addPlayer} onRemove={removePlayer} onArchive={archivePlayer} onMerge={mergePlayer} onUpdateProfile={updatePlayerProfile} onUpdateGender={updatePlayerGender} />
+                    <AdminDateJump grouped={jumpDates} date={date} setDate={setDate} />
+                    <SeasonsCard seasons={seasons} today={today} onCreate={createSeason} onClose={closeSeason} />
+                    <LeagueSettingsCard settings={settings} players={listedPlayers} onSave={saveSettings} onToggleBounty={setBounty} />
+                    <BadgesCard badges={badges} onSave={saveBadges} />
+                    <LeaguesCard leagueId={leagueId} title={league.title ?? ""} leagues={leagues} onRename={(title) => write({ title })} onCreate={createLeague} onSwitch={switchLeague} />
+                    {leagueStatus === "ready" && (league.schemaVersion ?? 1) < 2 && (
+                      <MigrationCard league={league} leagueId={leagueId} onBeforeMigrate={() => takeSnapshot("Before storage migration")} />
+                    )}
+                    {leagueStatus === "ready" && needsProfileUpgrade(league) && <ProfileUpgradeCard league={league} onUpgrade={upgradeProfiles} />}
+                    <ImportExportCard league={league} leagueId={leagueId} backups={allBackups} onReplace={importReplace} onMerge={importMerge} />
+                    <CsvCard league={league} leagueId={leagueId} onImport={importMerge} />
+                    <DataHealthCard league={league} onFix={repairData} />
+                    <BackupsCard
+                      backups={allBackups}
+                      players={players}
+                      matches={matches}
+                      retention={backupRetention}
+                      onTake={takeSnapshot}
+                      onRestore={(b) => restoreBackup(b)}
+                      onDelete={removeBackup}
+                      onRetentionChange={(n) => write({ backupRetention: n })}
+                    />
+                    <AuditLogCard entries={auditEntries} onUndo={undoEntry} />
+                    <Standings rows={standings} history={standingsHistory} search={search} periodLabel={seasons.length ? selectedSeason?.name ?? "All time" : undefined} />
+                    <SeasonArchive seasons={seasons} />
                 </div>
             </div>
         ) : (
   <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
     <div className="space-y-6 lg:col-span-2">
-      <Standings rows={standings} showMatchFilterToggle matchFilter={standingsMatchFilter} onMatchFilterChange={setStandingsMatchFilter} />
+      {todayCourts > 0 && (
+        <CourtBoard matches={matches.filter((m) => m.date === today)} courts={todayCourts} nameOf={nameOf} />
+      )}
+      <Standings rows={standings} history={standingsHistory} search={search} periodLabel={seasons.length ? selectedSeason?.name ?? "All time" : undefined} showMatchFilterToggle matchFilter={standingsMatchFilter} onMatchFilterChange={setStandingsMatchFilter} />
       <MatchesPlayer grouped={grouped} nameOf={nameOf} />
     </div>
     <div className="space-y-6 min-w-[260px]">
+      <RecentAchievementsCard players={listedPlayers} matches={matches} sessions={league.sessions ?? {}} season={selectedSeason} settings={league.settings} badges={badges} />
       <PlayerStatsAndAchievements
-        players={players}
-        matches={matches}
+        players={listedPlayers}
+        matches={seasonMatches}
+        sessions={seasonSessions}
+        settings={league.settings}
+        badges={badges}
         meId={meId}
         setMeId={setMeId}
       />
+      <RsvpCard
+        player={players.find((p) => p.id === meId)}
+        dates={upcomingTrainingDates(2)}
+        rsvps={rsvps}
+        sessions={league.sessions ?? {}}
+        onRsvp={setRsvp}
+      />
+      <SeasonArchive seasons={seasons} />
     </div>
   </div>
 )}
 
-        {/* Admin PIN modal */}
-        <AdminPinModal
-          open={showPinModal}
-          onClose={handlePinClose}
-          onSuccess={handlePinSuccess}
+        {/* Admin login modal */}
+        {role === "admin" && <UndoToast entry={lastAction} onUndo={undoEntry} onClose={closeUndoToast} />}
+        <AdminLoginModal
+          open={showLoginModal}
+          onClose={() => setShowLoginModal(false)}
+          onSignIn={adminAuth.signIn}
+          onSuccess={handleLoginSuccess}
         />
       </div>
     </div>
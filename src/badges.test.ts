@@ -0,0 +1,125 @@
+// Jelvény-feltételek kiértékelése (tiszta függvények, emulátor nélkül)
+import { describe, expect, it } from "vitest";
+import type { LeagueSettings, Match, Pair, Player } from "./App";
+import { computeAchievementsFull, type BadgeCondition, type BadgeDef } from "./badges";
+
+const players: Player[] = ["p1", "p2", "p3", "p4", "p5", "p6"].map((id) => ({ id, name: id }));
+let seq = 0;
+const match = (date: string, teamA: Pair, teamB: Pair, winner?: "A" | "B"): Match => ({
+  id: `m${++seq}`,
+  date,
+  teamA,
+  teamB,
+  ...(winner ? { winner } : {}),
+});
+const badge = (id: string, condition: BadgeCondition, retired?: boolean): BadgeDef => ({
+  id,
+  title: id,
+  description: "",
+  icon: "⭐",
+  accent: "",
+  bg: "",
+  condition,
+  ...(retired ? { retired } : {}),
+});
+const settings: LeagueSettings = { winPoints: 3, lossPoints: 1, gamePoints: 0, minMatches: 5, bountyBonus: 1, tieBreakers: [] };
+const earned = (matches: Match[], badges: BadgeDef[]) => computeAchievementsFull("p1", { matches, players, badges });
+
+describe("computeAchievementsFull", () => {
+  it("wins: unlocks at the match that reaches the threshold", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-06", ["p1", "p3"], ["p2", "p4"], "B"),
+      match("2025-01-08", ["p1", "p4"], ["p2", "p3"], "A"),
+    ];
+    const [b] = earned(ms, [badge("win2", { type: "wins", min: 2 })]);
+    expect(b).toMatchObject({ id: "win2", unlockedAt: "2025-01-08", matchId: ms[2].id });
+    expect(earned(ms, [badge("win3", { type: "wins", min: 3 })])).toEqual([]);
+  });
+
+  it("matches: counts only played matches with a result", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "B"),
+      match("2025-01-06", ["p1", "p3"], ["p2", "p4"]),
+      match("2025-01-08", ["p1", "p4"], ["p2", "p3"], "B"),
+    ];
+    const [b] = earned(ms, [badge("m2", { type: "matches", min: 2 })]);
+    expect(b).toMatchObject({ unlockedAt: "2025-01-08", matchId: ms[2].id });
+    expect(earned(ms, [badge("m3", { type: "matches", min: 3 })])).toEqual([]);
+  });
+
+  it("streak: counts consecutive sessions and resets on a missed one", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-08", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-13", ["p5", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-15", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-20", ["p1", "p2"], ["p3", "p4"], "A"),
+    ];
+    const [b] = earned(ms, [badge("s2", { type: "streak", min: 2 })]);
+    expect(b).toMatchObject({ unlockedAt: "2025-01-08" });
+    // a sorozat az edzésnaphoz tartozik, nem a nap utolsó meccséhez
+    expect(b.matchId).toBeUndefined();
+    expect(earned(ms, [badge("s3", { type: "streak", min: 3 })])).toEqual([]);
+  });
+
+  it("streak: recorded attendance counts even without a match", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-08", ["p5", "p2"], ["p3", "p4"], "A"),
+    ];
+    const sessions = { "2025-01-08": { present: ["p1", "p2", "p3", "p4", "p5"] } };
+    const [b] = computeAchievementsFull("p1", { matches: ms, players, sessions, badges: [badge("s2", { type: "streak", min: 2 })] });
+    expect(b).toMatchObject({ unlockedAt: "2025-01-08" });
+  });
+
+  it("beatBounty: needs a win against a bounty player", () => {
+    const withBounty = players.map((p) => (p.id === "p4" ? { ...p, bounty: true } : p));
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "B"),
+      match("2025-01-08", ["p1", "p2"], ["p5", "p6"], "A"),
+      match("2025-01-13", ["p1", "p3"], ["p2", "p4"], "A"),
+    ];
+    const badges = [badge("bounty", { type: "beatBounty" })];
+    const [b] = computeAchievementsFull("p1", { matches: ms, players: withBounty, settings, badges });
+    expect(b).toMatchObject({ unlockedAt: "2025-01-13", matchId: ms[2].id });
+    expect(computeAchievementsFull("p1", { matches: ms.slice(0, 2), players: withBounty, settings, badges })).toEqual([]);
+  });
+
+  it("beatBounty: leagues without settings still use the legacy name rule", () => {
+    const legacy = players.map((p) => (p.id === "p3" ? { ...p, name: "Melinda" } : p));
+    const ms = [match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A")];
+    const [b] = computeAchievementsFull("p1", { matches: ms, players: legacy, badges: [badge("bounty", { type: "beatBounty" })] });
+    expect(b).toMatchObject({ matchId: ms[0].id });
+  });
+
+  it("winRate: requires the minimum number of matches and keeps the badge after a drop", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-08", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-08", ["p1", "p2"], ["p3", "p4"], "B"),
+      match("2025-01-13", ["p1", "p2"], ["p3", "p4"], "B"),
+    ];
+    const [b] = earned(ms, [badge("wr", { type: "winRate", min: 75, minMatches: 3 })]);
+    expect(b).toMatchObject({ unlockedAt: "2025-01-08", matchId: ms[2].id });
+    expect(earned(ms.slice(0, 2), [badge("wr", { type: "winRate", min: 75, minMatches: 3 })])).toEqual([]);
+  });
+
+  it("partners: counts distinct teammates", () => {
+    const ms = [
+      match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A"),
+      match("2025-01-06", ["p1", "p2"], ["p5", "p6"], "A"),
+      match("2025-01-08", ["p1", "p3"], ["p2", "p4"], "B"),
+    ];
+    const [b] = earned(ms, [badge("pa2", { type: "partners", min: 2 })]);
+    expect(b).toMatchObject({ unlockedAt: "2025-01-08", matchId: ms[2].id });
+    expect(earned(ms, [badge("pa3", { type: "partners", min: 3 })])).toEqual([]);
+  });
+
+  it("retired badges are never awarded", () => {
+    const ms = [match("2025-01-06", ["p1", "p2"], ["p3", "p4"], "A")];
+    const badges = [badge("win1", { type: "wins", min: 1 }, true), badge("play1", { type: "matches", min: 1 })];
+    expect(earned(ms, badges).map((b) => b.id)).toEqual(["play1"]);
+  });
+});
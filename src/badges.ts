@@ -0,0 +1,183 @@
+// ========================= Achievements Logic =========================
+// Jelvények: feltételek, alapkészlet és a kiértékelés (React- és Firebase-független)
+import type { LeagueDoc, Match, Player, SessionInfo } from "./App";
+
+export type Achievement = {
+  id: string;
+  title: string;
+  description: string;
+};
+
+// beállítások előtti ligák: a bónusz a névben "melinda"-t tartalmazó játékosé volt
+export const isLegacyBounty = (p: Player) => p.name.toLowerCase().includes("melinda");
+export const bountyIds = (league: Pick<LeagueDoc, "players" | "settings">) =>
+  new Set(league.players.filter((p) => (league.settings ? p.bounty : isLegacyBounty(p))).map((p) => p.id));
+
+// egy jelvény feltétele; minden küszöb ">=" (a win rate százalékban)
+export type BadgeCondition =
+  | { type: "wins"; min: number }
+  | { type: "matches"; min: number }
+  | { type: "streak"; min: number }
+  | { type: "beatBounty" }
+  | { type: "winRate"; min: number; minMatches: number }
+  | { type: "partners"; min: number };
+export type BadgeDef = Achievement & {
+  icon: string;
+  accent: string;
+  bg: string;
+  condition: BadgeCondition;
+  // visszavont jelvény: nem jár, a jelmagyarázatban sem látszik
+  retired?: boolean;
+};
+
+export const BADGE_CONDITION_LABELS: Record<BadgeCondition["type"], string> = {
+  wins: "Wins ≥ N",
+  matches: "Matches ≥ N",
+  streak: "Attendance streak ≥ N",
+  beatBounty: "Beat a bounty player",
+  winRate: "Win rate ≥ N%",
+  partners: "Partnered with N players",
+};
+export function describeCondition(c: BadgeCondition): string {
+  switch (c.type) {
+    case "wins": return `Win ${c.min} matches.`;
+    case "matches": return `Play ${c.min} matches.`;
+    case "streak": return `${c.min} sessions in a row.`;
+    case "beatBounty": return "Win against a bounty player.";
+    case "winRate": return `Win ${c.min}% of at least ${c.minMatches} matches.`;
+    case "partners": return `Play doubles with ${c.min} different partners.`;
+  }
+}
+export const BADGE_STYLES: { accent: string; bg: string }[] = [
+  { accent: "text-amber-700", bg: "bg-amber-50" },
+  { accent: "text-slate-700", bg: "bg-slate-100" },
+  { accent: "text-yellow-600", bg: "bg-yellow-50" },
+  { accent: "text-rose-600", bg: "bg-rose-50" },
+  { accent: "text-orange-600", bg: "bg-orange-50" },
+  { accent: "text-lime-600", bg: "bg-lime-50" },
+  { accent: "text-sky-600", bg: "bg-sky-50" },
+  { accent: "text-cyan-600", bg: "bg-cyan-50" },
+  { accent: "text-violet-600", bg: "bg-violet-50" },
+];
+
+// a liga saját listája (league.badges) ezt váltja ki, ha már szerkesztették
+export const DEFAULT_BADGES: BadgeDef[] = [
+  { id: "win5", title: "Novice Winner", description: "Win 5 matches.", icon: "🥉", ...BADGE_STYLES[0], condition: { type: "wins", min: 5 } },
+  { id: "win10", title: "Pro Winner", description: "Win 10 matches.", icon: "🥈", ...BADGE_STYLES[1], condition: { type: "wins", min: 10 } },
+  { id: "win25", title: "Champion", description: "Win 25 matches.", icon: "🥇", ...BADGE_STYLES[2], condition: { type: "wins", min: 25 } },
+  { id: "beatBounty", title: "Bounty Hunter", description: "Win against a bounty player.", icon: "🎯", ...BADGE_STYLES[3], condition: { type: "beatBounty" } },
+  { id: "streak3", title: "Regular", description: "3 sessions in a row.", icon: "🔥", ...BADGE_STYLES[4], condition: { type: "streak", min: 3 } },
+  { id: "streak6", title: "Dedicated", description: "6 sessions in a row.", icon: "💪", ...BADGE_STYLES[5], condition: { type: "streak", min: 6 } },
+  { id: "streak10", title: "Ironman", description: "10 sessions in a row.", icon: "🏆", ...BADGE_STYLES[6], condition: { type: "streak", min: 10 } },
+  { id: "min5matches", title: "Seasoned Player", description: "Play 5 matches.", icon: "🏸", ...BADGE_STYLES[7], condition: { type: "matches", min: 5 } },
+];
+export const leagueBadges = (league: Pick<LeagueDoc, "badges">) => league.badges ?? DEFAULT_BADGES;
+
+type AchievementInput = Pick<LeagueDoc, "matches" | "players" | "sessions" | "settings" | "badges">;
+
+// egy játékos adatai, amiből minden feltétel kiértékelhető
+type BadgeStats = { played: number; wins: number; beatBounty: boolean; partners: number; winRate: number; streak: number };
+export type EarnedBadge = BadgeDef & { unlockedAt: string; matchId?: string };
+
+function meetsCondition(c: BadgeCondition, st: BadgeStats): boolean {
+  switch (c.type) {
+    case "wins": return st.wins >= c.min;
+    case "matches": return st.played >= c.min;
+    case "streak": return st.streak >= c.min;
+    case "beatBounty": return st.beatBounty;
+    case "winRate": return st.played >= c.minMatches && st.winRate >= c.min;
+    case "partners": return st.partners >= c.min;
+  }
+}
+
+/**
+ * A meccsek időrendi visszajátszása: minden jelvény annál a meccsnél (vagy
+ * edzésnapnál, ha csak a jelenlét számít) nyílik meg, ahol a feltétel először teljesül.
+ * Ami egyszer megvan, megmarad – akkor is, ha pl. a win rate később visszaesik.
+ */
+export function computeAchievementsFull(playerId: string, league: AchievementInput): EarnedBadge[] {
+  const { matches, players, sessions = {}, settings } = league;
+  const badges = leagueBadges(league).filter((b) => !b.retired);
+  const bounties = bountyIds({ players, settings });
+  const partners = new Set<string>();
+  const st: BadgeStats = { played: 0, wins: 0, beatBounty: false, partners: 0, winRate: 0, streak: 0 };
+  const earned = new Map<string, EarnedBadge>();
+  const check = (date: string, matchId?: string) =>
+    badges.forEach((b) => {
+      if (!earned.has(b.id) && meetsCondition(b.condition, st)) earned.set(b.id, { ...b, unlockedAt: date, matchId });
+    });
+
+  const byDate = new Map<string, Match[]>();
+  matches.forEach((m) => byDate.set(m.date, [...(byDate.get(m.date) ?? []), m]));
+  let current = 0;
+  attendanceTimeline(playerId, matches, sessions).forEach(({ date, attended }) => {
+    (byDate.get(date) ?? []).forEach((m) => {
+      const side = m.teamA.includes(playerId) ? "A" : m.teamB.includes(playerId) ? "B" : null;
+      // csak a lejátszott (eredményes) meccsek számítanak
+      if (!side || !m.winner) return;
+      const mine = side === "A" ? m.teamA : m.teamB;
+      const theirs = side === "A" ? m.teamB : m.teamA;
+      st.played++;
+      mine.filter((id) => id && id !== playerId).forEach((id) => partners.add(id));
+      st.partners = partners.size;
+      if (m.winner === side) {
+        st.wins++;
+        if (theirs.some((id) => bounties.has(id))) st.beatBounty = true;
+      }
+      st.winRate = (st.wins / st.played) * 100;
+      check(date, m.id);
+    });
+    current = attended ? current + 1 : 0;
+    st.streak = Math.max(st.streak, current);
+    // a sorozat az edzésnaphoz tartozik, nem egy meccshez
+    check(date);
+  });
+  return badges.flatMap((b) => earned.get(b.id) ?? []);
+}
+
+// a legutóbbi edzésnap, ahol már volt eredmény – az ekkor szerzett jelvények "újak"
+export const latestSessionDate = (matches: Match[]) =>
+  matches.reduce((max, m) => (m.winner && m.date > max ? m.date : max), "");
+
+// importált / szerkesztett jelvény ellenőrzése; null = érvénytelen
+export function parseBadge(raw: unknown): BadgeDef | null {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const c = (r.condition && typeof r.condition === "object" ? r.condition : {}) as Record<string, unknown>;
+  const n = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null);
+  if (typeof r.id !== "string" || !r.id || typeof r.title !== "string" || !r.title.trim()) return null;
+  const min = n(c.min);
+  const minMatches = n(c.minMatches);
+  let condition: BadgeCondition | null = null;
+  if ((c.type === "wins" || c.type === "matches" || c.type === "streak" || c.type === "partners") && min !== null) condition = { type: c.type, min };
+  else if (c.type === "beatBounty") condition = { type: "beatBounty" };
+  else if (c.type === "winRate" && min !== null && min <= 100 && minMatches !== null) condition = { type: "winRate", min, minMatches };
+  if (!condition) return null;
+  const style = BADGE_STYLES.find((x) => x.accent === r.accent) ?? BADGE_STYLES[0];
+  return {
+    id: r.id,
+    title: r.title.trim(),
+    description: typeof r.description === "string" && r.description.trim() ? r.description.trim() : describeCondition(condition),
+    icon: typeof r.icon === "string" && r.icon ? r.icon : "⭐",
+    ...style,
+    condition,
+    ...(r.retired === true ? { retired: true } : {}),
+  };
+}
+
+/**
+ * Edzésnapok időrendben, és hogy a játékos ott volt-e (a sorozatokhoz).
+ * Ahol van rögzített jelenlét, az számít (aki kimaradt a meccsekből, az is ott volt);
+ * régi napoknál, ahol nincs, a meccs-részvételből következtetünk.
+ */
+function attendanceTimeline(playerId: string, matches: Match[], sessions: Record<string, SessionInfo> = {}) {
+  const recorded = Object.keys(sessions).filter((d) => sessions[d]?.present?.length);
+  const allDates = Array.from(new Set([...matches.map((m) => m.date), ...recorded])).sort();
+  const playedDates = new Set<string>();
+  matches.forEach((m) => {
+    if (m.teamA.includes(playerId) || m.teamB.includes(playerId)) playedDates.add(m.date);
+  });
+  return allDates.map((date) => {
+    const present = sessions[date]?.present;
+    return { date, attended: present?.length ? present.includes(playerId) : playedDates.has(date) };
+  });
+}
@@ -0,0 +1,135 @@
+// Firestore-szabályok ellenőrzése emulátoron (npm run test:emulator)
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { Timestamp, deleteDoc, doc, getDoc, serverTimestamp, setDoc, type Firestore } from "firebase/firestore";
+import rules from "../firestore.rules?raw";
+
+const LEAGUE = "leagues/test";
+const fs = (ctx: RulesTestContext) => ctx.firestore() as unknown as Firestore;
+
+describe.skipIf(!import.meta.env.FIRESTORE_EMULATOR_HOST)("firestore.rules", () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({ projectId: "demo-bia-tollas", firestore: { rules } });
+  });
+  afterAll(async () => { await env?.cleanup(); });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = fs(ctx);
+      await setDoc(doc(db, LEAGUE), { name: "Teszt", schemaVersion: 2 });
+      await setDoc(doc(db, LEAGUE, "players/p1"), { id: "p1", name: "Anna", _seq: 0 });
+      await setDoc(doc(db, LEAGUE, "matches/m1"), { id: "m1", date: "2025-01-01", _seq: 0 });
+      await setDoc(doc(db, LEAGUE, "sessions/2025-01-01"), { date: "2025-01-01", _seq: 0 });
+      await setDoc(doc(db, LEAGUE, "backups/b1"), { at: "2025-01-01T00:00:00.000Z" });
+      await setDoc(doc(db, LEAGUE, "audit/a1"), { action: "add-player" });
+      await setDoc(doc(db, "admins/bob"), {});
+    });
+  });
+
+  const unauthed = () => fs(env.unauthenticatedContext());
+  const anon = () => fs(env.authenticatedContext("guest", { firebase: { sign_in_provider: "anonymous", identities: {} } }));
+  const member = () => fs(env.authenticatedContext("carol"));
+  const claimAdmin = () => fs(env.authenticatedContext("alice", { admin: true }));
+  const emailAdmin = () => fs(env.authenticatedContext("dave", { admin: true, email: "dave@example.com" }));
+  const docAdmin = () => fs(env.authenticatedContext("bob"));
+  // anonim belépés admin claimmel sem admin
+  const anonWithClaim = () => fs(env.authenticatedContext("eve", { admin: true, firebase: { sign_in_provider: "anonymous", identities: {} } }));
+
+  const leagueDocs = [LEAGUE, `${LEAGUE}/players/p1`, `${LEAGUE}/matches/m1`, `${LEAGUE}/sessions/2025-01-01`];
+  const adminDocs = [`${LEAGUE}/backups/b1`, `${LEAGUE}/audit/a1`];
+
+  describe("non-admin", () => {
+    for (const [who, client] of [["unauthenticated", unauthed], ["anonymous", anon], ["signed-in member", member], ["anonymous with admin claim", anonWithClaim]] as const) {
+      it(`${who}: cannot write league data, backups or audit`, async () => {
+        const db = client();
+        for (const path of [...leagueDocs, ...adminDocs]) {
+          await assertFails(setDoc(doc(db, path), { hacked: true }, { merge: true }));
+          await assertFails(deleteDoc(doc(db, path)));
+        }
+        await assertFails(setDoc(doc(db, LEAGUE, "players/p2"), { id: "p2", name: "Béla" }));
+        await assertFails(setDoc(doc(db, LEAGUE, "playerNames/b%C3%A9la"), { playerId: "p2" }));
+        await assertFails(setDoc(doc(db, LEAGUE, "backups/b2"), { at: "x" }));
+        await assertFails(setDoc(doc(db, LEAGUE, "audit/a2"), { action: "x", actor: "guest" }));
+        await assertFails(setDoc(doc(db, "leagues/other"), { name: "Új liga" }));
+      });
+    }
+
+    it("unauthenticated: cannot read", async () => {
+      for (const path of leagueDocs) await assertFails(getDoc(doc(unauthed(), path)));
+    });
+
+    it("signed-in (anonymous included): can read league data", async () => {
+      for (const db of [anon(), member()]) {
+        for (const path of leagueDocs) await assertSucceeds(getDoc(doc(db, path)));
+      }
+    });
+
+    it("signed-in: cannot read backups or audit", async () => {
+      for (const path of adminDocs) await assertFails(getDoc(doc(member(), path)));
+    });
+
+    it("signed-in: can RSVP only with the server time", async () => {
+      const rsvp = `${LEAGUE}/rsvps/2025-01-08__p1`;
+      const base = { date: "2025-01-08", playerId: "p1", status: "yes" };
+      await assertSucceeds(setDoc(doc(anon(), rsvp), { ...base, at: serverTimestamp() }));
+      // visszadátumozott jelentkezéssel nem lehet előre kerülni a várólistán
+      await assertFails(setDoc(doc(anon(), rsvp), { ...base, at: Timestamp.fromDate(new Date("2020-01-01")) }));
+      await assertFails(setDoc(doc(anon(), rsvp), { ...base, at: "2020-01-01T00:00:00.000Z" }));
+      await assertFails(setDoc(doc(unauthed(), rsvp), { ...base, at: serverTimestamp() }));
+    });
+
+    it("cannot write other collections under the league", async () => {
+      await assertFails(setDoc(doc(member(), LEAGUE, "secrets/s1"), { x: 1 }));
+    });
+  });
+
+  describe("admin", () => {
+    for (const [who, client, self] of [["admin claim", claimAdmin, "alice"], ["admins/{uid} doc", docAdmin, "bob"]] as const) {
+      it(`${who}: can write league data and backups`, async () => {
+        const db = client();
+        await assertSucceeds(setDoc(doc(db, LEAGUE), { name: "Átnevezve" }, { merge: true }));
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "players/p2"), { id: "p2", name: "Béla", _seq: 1 }));
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "playerNames/b%C3%A9la"), { playerId: "p2" }));
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "matches/m2"), { id: "m2", date: "2025-01-08", _seq: 1 }));
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "sessions/2025-01-08"), { date: "2025-01-08", _seq: 1 }));
+        await assertSucceeds(deleteDoc(doc(db, LEAGUE, "matches/m1")));
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "backups/b2"), { at: "2025-01-08T00:00:00.000Z" }));
+        await assertSucceeds(getDoc(doc(db, LEAGUE, "backups/b1")));
+      });
+
+      it(`${who}: audit is append-only`, async () => {
+        const db = client();
+        await assertSucceeds(setDoc(doc(db, LEAGUE, "audit/a2"), { action: "add-player", actor: self }));
+        await assertSucceeds(getDoc(doc(db, LEAGUE, "audit/a1")));
+        await assertFails(setDoc(doc(db, LEAGUE, "audit/a1"), { action: "changed" }));
+        await assertFails(deleteDoc(doc(db, LEAGUE, "audit/a1")));
+      });
+
+      it(`${who}: cannot write audit entries under someone else's name`, async () => {
+        const db = client();
+        await assertFails(setDoc(doc(db, LEAGUE, "audit/a3"), { action: "add-player", actor: "carol" }));
+        await assertFails(setDoc(doc(db, LEAGUE, "audit/a4"), { action: "add-player" }));
+      });
+    }
+
+    it("admin with an email: audit actor may be the email", async () => {
+      await assertSucceeds(setDoc(doc(emailAdmin(), LEAGUE, "audit/a5"), { action: "add-player", actor: "dave@example.com" }));
+      await assertFails(setDoc(doc(emailAdmin(), LEAGUE, "audit/a6"), { action: "add-player", actor: "alice@example.com" }));
+    });
+
+    it("nobody can edit the admin list from the client", async () => {
+      await assertFails(setDoc(doc(claimAdmin(), "admins/carol"), {}));
+      await assertSucceeds(getDoc(doc(docAdmin(), "admins/bob")));
+      await assertFails(getDoc(doc(member(), "admins/bob")));
+    });
+  });
+});
@@ -0,0 +1,139 @@
+// Két admin kliens egyidejű írása emulátoron (npm run test:emulator)
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { initializeTestEnvironment, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { doc, getDoc, getDocs, collection, setDoc, type Firestore } from "firebase/firestore";
+import rules from "../firestore.rules?raw";
+import type { Match, Player } from "./App";
+import { ConflictError, addPlayerTx, saveItemSetsTx, saveItemsTx } from "./leagueTx";
+
+const LEAGUE = "test";
+const describeMatch = (m: Match) => `Match ${m.id}`;
+const nameKey = (p: Player) => (p.displayName ?? p.name).trim().toLowerCase();
+const match: Match = { id: "m1", date: "2025-01-01", teamA: ["p1", "p2"], teamB: ["p3", "p4"] };
+
+describe.skipIf(!import.meta.env.FIRESTORE_EMULATOR_HOST)("leagueTx with two clients", () => {
+  let env: RulesTestEnvironment;
+  let alice: Firestore;
+  let bob: Firestore;
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({ projectId: "demo-bia-tollas", firestore: { rules } });
+  });
+  afterAll(async () => { await env?.cleanup(); });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore() as unknown as Firestore;
+      await setDoc(doc(db, "leagues", LEAGUE), { schemaVersion: 2 });
+      await setDoc(doc(db, "leagues", LEAGUE, "matches", match.id), { ...match, _seq: 0 });
+    });
+    alice = env.authenticatedContext("alice", { admin: true }).firestore() as unknown as Firestore;
+    bob = env.authenticatedContext("bob", { admin: true }).firestore() as unknown as Firestore;
+  });
+
+  const serverMatch = async () => {
+    const snap = await getDoc(doc(alice, "leagues", LEAGUE, "matches", match.id));
+    return snap.exists() ? snap.data() : undefined;
+  };
+  const serverPlayers = async () => (await getDocs(collection(alice, "leagues", LEAGUE, "players"))).docs.map((d) => d.data() as Player);
+
+  describe("saveItemsTx", () => {
+    it("rejects the second write of the same field from a stale copy", async () => {
+      await saveItemsTx(alice, LEAGUE, "matches", [match], [{ ...match, winner: "A" }], describeMatch);
+      await expect(
+        saveItemsTx(bob, LEAGUE, "matches", [match], [{ ...match, winner: "B" }], describeMatch)
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect((await serverMatch())?.winner).toBe("A");
+    });
+
+    it("merges changes to different fields", async () => {
+      await saveItemsTx(alice, LEAGUE, "matches", [match], [{ ...match, winner: "A" }], describeMatch);
+      await saveItemsTx(bob, LEAGUE, "matches", [match], [{ ...match, court: 2 }], describeMatch);
+      expect(await serverMatch()).toMatchObject({ winner: "A", court: 2 });
+    });
+
+    it("does not resurrect or overwrite a match deleted by the other client", async () => {
+      await saveItemsTx(alice, LEAGUE, "matches", [match], [], describeMatch);
+      await expect(
+        saveItemsTx(bob, LEAGUE, "matches", [match], [{ ...match, winner: "B" }], describeMatch)
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect(await serverMatch()).toBeUndefined();
+    });
+
+    it("does not delete a match the other client changed", async () => {
+      await saveItemsTx(alice, LEAGUE, "matches", [match], [{ ...match, winner: "A" }], describeMatch);
+      await expect(saveItemsTx(bob, LEAGUE, "matches", [match], [], describeMatch)).rejects.toBeInstanceOf(ConflictError);
+      expect((await serverMatch())?.winner).toBe("A");
+    });
+
+    it("lets only one of two simultaneous conflicting writes through", async () => {
+      const results = await Promise.allSettled([
+        saveItemsTx(alice, LEAGUE, "matches", [match], [{ ...match, winner: "A" }], describeMatch),
+        saveItemsTx(bob, LEAGUE, "matches", [match], [{ ...match, winner: "B" }], describeMatch),
+      ]);
+      const rejected = results.filter((r) => r.status === "rejected");
+      expect(rejected).toHaveLength(1);
+      expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+      const winner = results[0].status === "fulfilled" ? "A" : "B";
+      expect((await serverMatch())?.winner).toBe(winner);
+    });
+  });
+
+  describe("saveItemSetsTx", () => {
+    it("writes players and matches together or not at all", async () => {
+      const p1: Player = { id: "p1", name: "Anna" };
+      const merged: Player = { ...p1, status: "merged", mergedInto: "p9" };
+      const moved: Match = { ...match, teamA: ["p9", "p2"] };
+      await saveItemsTx(alice, LEAGUE, "players", [], [p1], (p) => p.name);
+      await saveItemsTx(bob, LEAGUE, "matches", [match], [{ ...match, teamA: ["p5", "p2"] }], describeMatch);
+
+      await expect(saveItemSetsTx(alice, LEAGUE, [
+        { name: "players", prev: [p1], next: [merged], describe: (p: Player) => p.name },
+        { name: "matches", prev: [match], next: [moved], describe: describeMatch },
+      ])).rejects.toBeInstanceOf(ConflictError);
+      expect((await serverPlayers())[0].status).toBeUndefined();
+      expect((await serverMatch())?.teamA).toEqual(["p5", "p2"]);
+    });
+  });
+
+  describe("addPlayerTx", () => {
+    const anna1: Player = { id: "p1", name: "🏸 Anna", displayName: "Anna", emoji: "🏸" };
+    const anna2: Player = { id: "p2", name: "🎾 anna ", displayName: "anna ", emoji: "🎾" };
+
+    it("adds only one of two simultaneous players with the same display name", async () => {
+      const results = await Promise.allSettled([
+        addPlayerTx(alice, LEAGUE, anna1, nameKey),
+        addPlayerTx(bob, LEAGUE, anna2, nameKey),
+      ]);
+      const rejected = results.filter((r) => r.status === "rejected");
+      expect(rejected).toHaveLength(1);
+      expect((rejected[0] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+      expect(await serverPlayers()).toHaveLength(1);
+    });
+
+    it("rejects a later add with the same name but a different emoji", async () => {
+      await addPlayerTx(alice, LEAGUE, anna1, nameKey);
+      await expect(addPlayerTx(bob, LEAGUE, anna2, nameKey)).rejects.toBeInstanceOf(ConflictError);
+      expect((await serverPlayers()).map((p) => p.id)).toEqual(["p1"]);
+    });
+
+    it("frees the name once its player was merged away or renamed", async () => {
+      await addPlayerTx(alice, LEAGUE, anna1, nameKey);
+      await saveItemsTx(alice, LEAGUE, "players", [anna1], [{ ...anna1, status: "merged", mergedInto: "p9" }], (p) => p.name);
+      await addPlayerTx(bob, LEAGUE, anna2, nameKey);
+
+      const bela: Player = { id: "p3", name: "Béla", displayName: "Béla" };
+      await addPlayerTx(alice, LEAGUE, bela, nameKey);
+      await saveItemsTx(alice, LEAGUE, "players", [bela], [{ ...bela, name: "Bence", displayName: "Bence" }], (p) => p.name);
+      await addPlayerTx(bob, LEAGUE, { id: "p4", name: "Béla", displayName: "Béla" }, nameKey);
+
+      expect((await serverPlayers()).map((p) => p.id).sort()).toEqual(["p1", "p2", "p3", "p4"]);
+    });
+
+    it("rejects adding the same player twice (replayed offline op)", async () => {
+      await addPlayerTx(alice, LEAGUE, anna1, nameKey);
+      await expect(addPlayerTx(alice, LEAGUE, anna1, nameKey)).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+});
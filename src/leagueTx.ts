@@ -0,0 +1,125 @@
+// ========================= League Operations =========================
+// Egy-egy művelet (meccs felvétele, győztes, törlés, új játékos) tranzakcióban megy fel,
+// és csak a ténylegesen módosított mezőket írja. Ha közben valaki más ugyanazt
+// a mezőt átírta, nem írjuk felül – ConflictError-t dobunk.
+import { deleteField, doc, runTransaction, type DocumentReference, type Firestore } from "firebase/firestore";
+import type { Player } from "./App";
+import { byId, canonical, stripUndefinedDeep } from "./utils";
+
+export class ConflictError extends Error {}
+
+const itemRef = (db: Firestore, leagueId: string, name: string, id: string) => doc(db, "leagues", leagueId, name, id);
+
+// egy gyűjtemény változásai: előtte / utána lista, és hogyan nevezzük meg az elemet a hibaüzenetben
+export type ItemSet<T extends { id: string }> = {
+  name: "players" | "matches";
+  prev: T[];
+  next: T[];
+  describe(item: T): string;
+};
+
+type ItemChange = {
+  ref: DocumentReference;
+  base?: Record<string, unknown>;
+  target?: Record<string, unknown>;
+  label: string;
+};
+
+function itemSetChanges<T extends { id: string }>(db: Firestore, leagueId: string, set: ItemSet<T>): ItemChange[] {
+  const before: Record<string, T> = byId(set.prev);
+  const after: Record<string, T> = byId(set.next);
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((id) => canonical(before[id]) !== canonical(after[id]))
+    .map((id) => ({
+      ref: itemRef(db, leagueId, set.name, id),
+      base: before[id] as (T & Record<string, unknown>) | undefined,
+      target: after[id] as (T & Record<string, unknown>) | undefined,
+      label: set.describe(before[id] ?? after[id]),
+    }));
+}
+
+export function saveItemsTx<T extends { id: string }>(
+  db: Firestore,
+  leagueId: string,
+  name: "players" | "matches",
+  prev: T[],
+  next: T[],
+  describe: (item: T) => string
+) {
+  return saveItemSetsTx(db, leagueId, [{ name, prev, next, describe }]);
+}
+
+// több gyűjtemény egyetlen tranzakcióban (pl. összevonás: játékosok + meccsek együtt vagy egyik sem)
+export async function saveItemSetsTx(db: Firestore, leagueId: string, sets: ItemSet<{ id: string }>[]) {
+  const changes = sets.flatMap((set) => itemSetChanges(db, leagueId, set));
+  if (!changes.length) return;
+
+  await runTransaction(db, async (tx) => {
+    // tranzakcióban előbb minden olvasás, csak utána írás
+    const current = await Promise.all(changes.map((c) => tx.get(c.ref)));
+    let seq = Date.now();
+
+    changes.forEach(({ ref, base, target, label }, i) => {
+      const cur = current[i].exists() ? (current[i].data() as Record<string, unknown>) : undefined;
+      if (cur) delete cur._seq;
+
+      if (!base) {
+        if (cur) throw new ConflictError(`${label} was already added by another admin.`);
+        tx.set(ref, stripUndefinedDeep({ ...target!, _seq: seq++ }));
+        return;
+      }
+      if (!cur) {
+        // amit más már törölt, azt nem kell újra törölni
+        if (target) throw new ConflictError(`${label} was deleted by another admin.`);
+        return;
+      }
+      if (!target) {
+        if (canonical(cur) !== canonical(base)) {
+          throw new ConflictError(`${label} was changed by another admin, so it was not deleted.`);
+        }
+        tx.delete(ref);
+        return;
+      }
+
+      const fields = Array.from(new Set([...Object.keys(base), ...Object.keys(target)])).filter(
+        (k) => canonical(base[k]) !== canonical(target[k])
+      );
+      const clashes = fields.filter((k) => canonical(cur[k]) !== canonical(base[k]) && canonical(cur[k]) !== canonical(target[k]));
+      if (clashes.length) {
+        throw new ConflictError(`${label}: ${clashes.join(", ")} was changed by another admin.`);
+      }
+      tx.update(ref, Object.fromEntries(fields.map((k) => [k, target[k] === undefined ? deleteField() : stripUndefinedDeep(target[k])])));
+    });
+  });
+}
+
+// név szerinti őr-dokumentum: leagues/{id}/playerNames/{normalizált név} → { playerId }
+const nameGuardId = (nameKey: string) => encodeURIComponent(nameKey).replace(/\./g, "%2E");
+
+/**
+ * Új játékos felvétele egyetlen tranzakcióban: ugyanazt a nevet két admin egyszerre ne vegye fel.
+ * `nameKey` a normalizált megjelenített név (emoji nélkül); az őr csak akkor foglalt,
+ * ha a hozzá tartozó játékos még létezik, nem olvadt be máshová, és ugyanígy hívják.
+ */
+export async function addPlayerTx(db: Firestore, leagueId: string, player: Player, nameKey: (p: Player) => string) {
+  const key = nameKey(player);
+  const guardRef = doc(db, "leagues", leagueId, "playerNames", nameGuardId(key));
+  const ref = itemRef(db, leagueId, "players", player.id);
+
+  await runTransaction(db, async (tx) => {
+    const guard = await tx.get(guardRef);
+    const ownerId = guard.exists() ? (guard.data().playerId as string | undefined) : undefined;
+    if (ownerId && ownerId !== player.id) {
+      const owner = await tx.get(itemRef(db, leagueId, "players", ownerId));
+      const o = owner.exists() ? (owner.data() as Player) : undefined;
+      if (o && o.status !== "merged" && nameKey(o) === key) {
+        throw new ConflictError(`${player.name} was already added by another admin.`);
+      }
+    }
+    const cur = await tx.get(ref);
+    if (cur.exists()) throw new ConflictError(`${player.name} was already added by another admin.`);
+
+    tx.set(ref, stripUndefinedDeep({ ...player, _seq: Date.now() }));
+    tx.set(guardRef, { playerId: player.id });
+  });
+}
@@ -0,0 +1,42 @@
+// Offline sor felküldése (tiszta függvény, emulátor nélkül)
+import { describe, expect, it } from "vitest";
+import { drainQueue, type QueueStore } from "./offlineQueue";
+
+type Op = { id: string };
+const memoryStore = (ops: Op[]): QueueStore<Op> & { ops: Op[] } => ({
+  ops,
+  get() { return this.ops; },
+  set(next) { this.ops = next; },
+});
+
+describe("drainQueue", () => {
+  it("keeps and sends ops committed while a flush is in flight", async () => {
+    const store = memoryStore([{ id: "a" }]);
+    const sent: string[] = [];
+    await drainQueue(store, async (op) => {
+      // a felküldés alatt érkező új művelet a sor végére kerül
+      if (op.id === "a") store.set([...store.get(), { id: "b" }]);
+      await Promise.resolve();
+      sent.push(op.id);
+    }, () => "drop");
+    expect(sent).toEqual(["a", "b"]);
+    expect(store.ops).toEqual([]);
+  });
+
+  it("stops on a network error and leaves the op queued", async () => {
+    const store = memoryStore([{ id: "a" }, { id: "b" }]);
+    await drainQueue(store, async () => { throw new Error("offline"); }, () => "stop");
+    expect(store.ops.map((o) => o.id)).toEqual(["a", "b"]);
+  });
+
+  it("drops a rejected op and continues with the next", async () => {
+    const store = memoryStore([{ id: "a" }, { id: "b" }]);
+    const sent: string[] = [];
+    await drainQueue(store, async (op) => {
+      if (op.id === "a") throw new Error("conflict");
+      sent.push(op.id);
+    }, () => "drop");
+    expect(sent).toEqual(["b"]);
+    expect(store.ops).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+// ========================= Offline Queue =========================
+// A sorban álló műveletek felküldése – React- és Firebase-független, hogy tesztelhető legyen.
+
+// a sor tárolója: mindig a friss állapotot adja vissza (pl. ref + localStorage)
+export type QueueStore<T> = { get(): T[]; set(ops: T[]): void };
+
+/**
+ * Az elemek egyesével, sorrendben mennek fel. Egy lépés után csak a feldolgozott elem
+ * kerül ki a sorból: amit a felküldés (await) alatt fűztek hozzá, az megmarad és sorra kerül.
+ * `onError`: "stop" = megállunk, az elem a sorban marad (pl. nincs hálózat); "drop" = elvetjük.
+ */
+export async function drainQueue<T extends { id: string }>(
+  store: QueueStore<T>,
+  run: (op: T) => Promise<void>,
+  onError: (err: unknown, op: T) => "stop" | "drop"
+) {
+  while (store.get().length) {
+    const op = store.get()[0];
+    try {
+      await run(op);
+    } catch (err) {
+      if (onError(err, op) === "stop") return;
+    }
+    store.set(store.get().filter((o) => o.id !== op.id));
+  }
+}
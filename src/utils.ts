@@ -0,0 +1,49 @@
+// ========================= Utils =========================
+// React- és Firebase-független segédek (az App és a leagueTx közösen használja)
+
+export const isPlainObject = (v: unknown): boolean =>
+  v !== null &&
+  typeof v === "object" &&
+  (Object.getPrototypeOf(v) === Object.prototype || Object.getPrototypeOf(v) === null);
+
+/**
+ * Firestore-safe deep clean:
+ * - object mezőből kidobja az undefined-et
+ * - array-ben az undefined elemet null-ra cseréli
+ * - FieldValue / Timestamp jellegű nem-plain objecteket békén hagy
+ */
+export function stripUndefinedDeep<T>(value: T): T {
+  if (value === undefined || value === null) return value;
+
+  if (Array.isArray(value)) {
+    return value.map((v) => (v === undefined ? null : stripUndefinedDeep(v))) as T;
+  }
+
+  if (isPlainObject(value)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      if (v === undefined) continue;
+      out[k] = stripUndefinedDeep(v);
+    }
+    return out as T;
+  }
+
+  // pl. serverTimestamp() FieldValue -> hagyjuk
+  return value;
+}
+
+// stabil összehasonlítás (kulcs-sorrendtől független)
+export function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (isPlainObject(v)) {
+    const o = v as Record<string, unknown>;
+    return `{${Object.keys(o)
+      .filter((k) => o[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical(o[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+export const byId = <T extends { id: string }>(list: T[]): Record<string, T> => Object.fromEntries(list.map((x) => [x.id, x]));